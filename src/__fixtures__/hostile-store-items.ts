@@ -0,0 +1,90 @@
+import type { Args, StorybookStoreItem } from '../types';
+
+/**
+ * Args fixture with markup, quotes and unsafe URLs in every user-provided field.
+ */
+export const hostileArgs: Args = {
+  summaryTitle: 'Docs <script>alert("title")</script>',
+  summaryDescription: 'Tom & Jerry <img src=x onerror=alert(1)>',
+  summaryBaseUrl: 'https://example.com/docs?a=1&b=2',
+  distPath: 'dist/storybook',
+  refs: [
+    {
+      title: '<b>Evil</b> ref',
+      url: 'javascript:alert(1)//',
+    },
+    {
+      title: 'Quoted "ref"',
+      url: 'https://example.com/" onmouseover="alert(1)',
+    },
+  ],
+};
+
+/**
+ * Storybook store items fixture with markup in titles, descriptions, prop types, defaults and sources.
+ */
+export const hostileStoreItems: StorybookStoreItem[] = [
+  {
+    meta: {
+      id: 'components-hostile',
+      title: 'Components/<script>alert(1)</script>',
+      parameters: {
+        fileName: 'components-hostile.tsx',
+        docs: {
+          description: {
+            component: 'A component with <b>markup</b> & "quotes".',
+          },
+        },
+      },
+      component: {
+        displayName: 'Hostile',
+        __docgenInfo: {
+          props: {
+            items: {
+              defaultValue: { value: '["<a>", "b"]' },
+              description: 'Items, e.g. <li> elements.',
+              name: 'items',
+              required: true,
+              type: {
+                name: 'Array<string>',
+              },
+            },
+          },
+        },
+      },
+      subcomponents: {
+        '<HostileItem>': {
+          displayName: 'HostileItem',
+          __docgenInfo: {
+            description: 'Item <i>description</i>',
+            props: {
+              'on<Click>': {
+                defaultValue: null,
+                description: '',
+                name: 'on<Click>',
+                required: false,
+                type: {
+                  name: '(ev: MouseEvent<HTMLElement>) => void',
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+    stories: {
+      'components-hostile--default': {
+        id: 'components-hostile--default',
+        name: 'Default <img src=x onerror=alert(1)>',
+        parameters: {
+          docs: {
+            description: {
+              story: 'Story "description" with </p><script>alert(1)</script>',
+            },
+          },
+          fullSource: 'export const Default = () => <Hostile items={["&amp;", "</code>"]} />;',
+        },
+      },
+    },
+  },
+];
@@ -0,0 +1,193 @@
+import { mkdtemp, readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { hashItemOutput, readCache, restoreMDXContents, storeMDXContents, writeCache } from './cache';
+import { resolveConfig } from './config';
+import { clearPackageNames } from './imports';
+import { writeFullDocsFiles } from './renderers';
+import type { StorybookStoreItem } from './types';
+import { addMDXPageStory } from './utils';
+
+describe('cache', () => {
+  let distPath: string;
+
+  const createMDXItem = (fullSource?: string): StorybookStoreItem => ({
+    meta: {
+      id: 'concepts-introduction',
+      title: 'Concepts/Introduction',
+      parameters: { fileName: './Introduction.mdx' },
+    },
+    stories: {
+      'concepts-introduction--docs': {
+        id: 'concepts-introduction--docs',
+        name: 'Docs',
+        parameters: { docs: {}, docsOnly: true, ...(fullSource !== undefined && { fullSource }) },
+      },
+    },
+  });
+
+  beforeEach(async () => {
+    distPath = await mkdtemp(join(tmpdir(), 'cache-spec-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(distPath, { recursive: true, force: true });
+  });
+
+  describe('restoreMDXContents', () => {
+    it('should restore unchanged MDX pages and render changed ones', async () => {
+      await writeFile(join(distPath, 'Introduction-a1b2c3.js'), 'export default "v1";');
+
+      const cache = await readCache(distPath);
+      const rendered = createMDXItem('# Introduction');
+      const first = await restoreMDXContents(distPath, [createMDXItem()], cache);
+      expect(first.pending).toHaveLength(1);
+      storeMDXContents([rendered], first.inputHashes, cache);
+      await writeCache(distPath, cache);
+
+      const unchanged = createMDXItem();
+      const second = await restoreMDXContents(distPath, [unchanged], await readCache(distPath));
+      expect(second.pending).toEqual([]);
+      expect(unchanged.stories['concepts-introduction--docs']?.parameters.fullSource).toBe('# Introduction');
+
+      await writeFile(join(distPath, 'Introduction-a1b2c3.js'), 'export default "v2";');
+      const third = await restoreMDXContents(distPath, [createMDXItem()], await readCache(distPath));
+      expect(third.pending).toHaveLength(1);
+    });
+
+    it('should restore unchanged MDX pages listed without stories', async () => {
+      await writeFile(join(distPath, 'Introduction-a1b2c3.js'), 'export default "v1";');
+      const createStorylessItem = () => {
+        const item: StorybookStoreItem = { ...createMDXItem(), stories: {} };
+        addMDXPageStory(item);
+        return item;
+      };
+
+      const cache = await readCache(distPath);
+      const rendered = createStorylessItem();
+      const first = await restoreMDXContents(distPath, [rendered], cache);
+      expect(first.pending).toEqual([rendered]);
+      rendered.stories['concepts-introduction']!.parameters.fullSource = '# Introduction';
+      storeMDXContents([rendered], first.inputHashes, cache);
+
+      const unchanged = createStorylessItem();
+      expect((await restoreMDXContents(distPath, [unchanged], cache)).pending).toEqual([]);
+      expect(unchanged.stories['concepts-introduction']?.parameters.fullSource).toBe('# Introduction');
+    });
+
+    it('should never restore pages without a bundle or rendered empty', async () => {
+      const cache = await readCache(distPath);
+      const { pending, inputHashes } = await restoreMDXContents(distPath, [createMDXItem()], cache);
+      storeMDXContents([createMDXItem('')], inputHashes, cache);
+
+      expect(pending).toHaveLength(1);
+      expect(cache.items).toEqual({});
+    });
+  });
+
+  describe('hashItemOutput', () => {
+    it('should change with the options affecting the docs files', () => {
+      const args = resolveConfig(argsWithRefs);
+      const item = storybookStoreItems[2]!;
+
+      expect(hashItemOutput(args, item)).not.toBe(hashItemOutput({ ...args, tokenBudget: 1000 }, item));
+      expect(hashItemOutput(args, item)).not.toBe(
+        hashItemOutput({ ...args, docsTemplate: () => ({ sections: ['title'] }) }, item),
+      );
+      expect(hashItemOutput(args, item)).not.toBe(hashItemOutput({ ...args, summaryBaseUrl: '/docs/' }, item));
+      expect(hashItemOutput(args, item)).not.toBe(hashItemOutput({ ...args, docsFormats: ['md'] }, item));
+      expect(hashItemOutput(args, item)).not.toBe(hashItemOutput({ ...args, indexLinkFormat: 'txt' }, item));
+
+      const renderer = { name: 'rag', renderItem: () => [{ file: 'rag.json', content: '{}' }] };
+      const changedRenderer = { ...renderer, renderItem: () => [{ file: 'rag.json', content: '[]' }] };
+      expect(hashItemOutput(args, item)).not.toBe(hashItemOutput({ ...args, renderers: [renderer] }, item));
+      expect(hashItemOutput({ ...args, renderers: [renderer] }, item)).not.toBe(
+        hashItemOutput({ ...args, renderers: [changedRenderer] }, item),
+      );
+    });
+
+    it('should change with the package name resolved from package.json', async () => {
+      const args = resolveConfig({ ...argsWithRefs, distPath, importPackageJson: true });
+      const accordion = storybookStoreItems[2]!;
+      const item = {
+        ...accordion,
+        meta: { ...accordion.meta, parameters: { fileName: join(distPath, 'src', 'Accordion.stories.tsx') } },
+      };
+
+      await writeFile(join(distPath, 'package.json'), JSON.stringify({ name: '@acme/old' }));
+      const oldHash = hashItemOutput(args, item);
+      await writeFile(join(distPath, 'package.json'), JSON.stringify({ name: '@acme/new' }));
+      clearPackageNames();
+
+      expect(hashItemOutput(args, item)).not.toBe(oldHash);
+    });
+  });
+
+  describe('writeFullDocsFiles with cache', () => {
+    it('should only rewrite changed items and prune removed ones', async () => {
+      const args = resolveConfig({ ...argsWithRefs, distPath, cache: true });
+      const [introduction, quickStart, accordion] = storybookStoreItems as [
+        StorybookStoreItem,
+        StorybookStoreItem,
+        StorybookStoreItem,
+      ];
+
+      expect(await writeFullDocsFiles(args, [introduction, quickStart, accordion])).toHaveLength(6);
+      const accordionFile = join(distPath, 'llms', 'components-accordion.txt');
+      const { mtimeMs } = await stat(accordionFile);
+
+      const changedIntroduction: StorybookStoreItem = {
+        ...introduction,
+        meta: { ...introduction.meta, title: 'Concepts/Welcome' },
+      };
+      const files = await writeFullDocsFiles(args, [changedIntroduction, accordion]);
+
+      expect(files).toEqual([
+        join(distPath, 'llms', 'concepts-introduction.txt'),
+        join(distPath, 'llms', 'concepts-introduction.html'),
+      ]);
+      expect((await stat(accordionFile)).mtimeMs).toBe(mtimeMs);
+      await expect(stat(join(distPath, 'llms', 'concepts-developer-quick-start.txt'))).rejects.toThrow();
+      expect(Object.keys((await readCache(join(distPath, 'llms'))).items).sort()).toEqual([
+        'components-accordion',
+        'concepts-introduction',
+      ]);
+      expect(await readFile(accordionFile, 'utf-8')).toMatch(/^# Components\/Accordion/);
+    });
+
+    it('should clean up the docs directory when the cache lists no docs files', async () => {
+      const args = resolveConfig({ ...argsWithRefs, distPath, cache: true });
+      const [introduction] = storybookStoreItems as [StorybookStoreItem];
+      await writeFullDocsFiles({ ...args, cache: false }, storybookStoreItems);
+      // MDX contents cached by the extraction of the current run
+      const mdx = { 'concepts-introduction--docs': '# Introduction' };
+      await writeCache(join(distPath, 'llms'), {
+        ...(await readCache(join(distPath, 'llms'))),
+        items: { 'concepts-introduction': { inputHash: 'hash', mdx } },
+      });
+
+      await writeFullDocsFiles(args, [introduction]);
+
+      await expect(stat(join(distPath, 'llms', 'components-accordion.txt'))).rejects.toThrow();
+      expect((await readCache(join(distPath, 'llms'))).items).toEqual({
+        'concepts-introduction': expect.objectContaining({
+          mdx,
+          files: ['concepts-introduction.txt', 'concepts-introduction.html'],
+        }),
+      });
+    });
+
+    it('should refuse to clean up a foreign directory on the first cached run', async () => {
+      const args = resolveConfig({ ...argsWithRefs, distPath, cache: true });
+      await writeFile(join(distPath, 'index.js'), '');
+
+      await expect(writeFullDocsFiles({ ...args, docsDir: '.' }, storybookStoreItems)).rejects.toThrow(/Refusing/);
+    });
+  });
+});
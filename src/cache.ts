@@ -0,0 +1,200 @@
+import { createHash } from 'node:crypto';
+import { existsSync } from 'node:fs';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { getPackageVersion } from './config';
+import { getImportSource } from './imports';
+import { findStoriesBundle, readBundles } from './static-extract';
+import type { Args, StorybookStoreItem } from './types';
+
+/**
+ * Name of the cache file in the docs folder.
+ */
+export const CACHE_FILE_NAME = '.llms-cache.json';
+
+/**
+ * Incremental generation cache, stored in `.llms-cache.json` in the docs folder.
+ * Invalidated as a whole when the package version changes.
+ */
+export type LlmsCache = {
+  version: string;
+  items: Record<string, ItemCacheEntry>;
+};
+
+/**
+ * Cache entry of a store item.
+ */
+export type ItemCacheEntry = {
+  /**
+   * Hash of the MDX page inputs (meta, stories and bundle source), set for MDX pages only
+   */
+  inputHash?: string;
+  /**
+   * Rendered content of the MDX page stories, keyed by story id
+   */
+  mdx?: Record<string, string>;
+  /**
+   * Hash of the item and the options affecting its docs files
+   */
+  outputHash?: string;
+  /**
+   * Docs files of the item, relative to the docs folder
+   */
+  files?: string[];
+};
+
+/**
+ * Reads the cache of a previous run. Returns an empty cache if there is none or it was written by another version.
+ */
+export async function readCache(docsPath: string): Promise<LlmsCache> {
+  const cachePath = join(docsPath, CACHE_FILE_NAME);
+  const version = getPackageVersion();
+
+  if (existsSync(cachePath)) {
+    try {
+      const cache: LlmsCache = JSON.parse(await readFile(cachePath, 'utf-8'));
+      if (cache.version === version && cache.items && typeof cache.items === 'object') {
+        return cache;
+      }
+    } catch {
+      console.warn(`⚠️ Ignoring invalid cache file ${cachePath}`);
+    }
+  }
+
+  return { version, items: {} };
+}
+
+/**
+ * Writes the cache to `.llms-cache.json` in the docs folder.
+ */
+export async function writeCache(docsPath: string, cache: LlmsCache) {
+  await mkdir(docsPath, { recursive: true });
+  await writeFile(join(docsPath, CACHE_FILE_NAME), JSON.stringify(cache));
+}
+
+/**
+ * Restores the content of MDX pages whose inputs did not change since the cached run.
+ * The bundle compiled from the MDX file is part of the inputs, pages without a bundle are never restored.
+ *
+ * Returns the pages still to be rendered and the input hashes of all pages, to be passed to `storeMDXContents`.
+ */
+export async function restoreMDXContents(distPath: string, mdxItems: StorybookStoreItem[], cache: LlmsCache) {
+  const bundles = await readBundles(distPath);
+  const inputHashes = new Map<string, string>();
+  const pending: StorybookStoreItem[] = [];
+
+  for (const item of mdxItems) {
+    const bundle = findStoriesBundle(bundles, item.meta.parameters.fileName);
+    if (!bundle) {
+      pending.push(item);
+      continue;
+    }
+
+    const stories = Object.values(item.stories).map(({ parameters: { fullSource, ...parameters }, ...story }) => ({
+      ...story,
+      parameters,
+    }));
+    const inputHash = hash({ meta: item.meta, stories, bundle: bundle.source });
+    inputHashes.set(item.meta.id, inputHash);
+
+    const entry = cache.items[item.meta.id];
+    const mdx = entry?.inputHash === inputHash ? entry.mdx : undefined;
+    if (!mdx || Object.values(item.stories).some(story => !mdx[story.id])) {
+      pending.push(item);
+      continue;
+    }
+
+    for (const story of Object.values(item.stories)) {
+      story.parameters.fullSource = mdx[story.id] ?? '';
+    }
+  }
+
+  if (mdxItems.length > pending.length) {
+    console.log(`♻️ Restored ${mdxItems.length - pending.length} unchanged MDX pages from the cache.`);
+  }
+
+  return { pending, inputHashes };
+}
+
+/**
+ * Stores the rendered content of MDX pages in the cache. Pages that rendered empty are not cached.
+ */
+export function storeMDXContents(mdxItems: StorybookStoreItem[], inputHashes: Map<string, string>, cache: LlmsCache) {
+  for (const item of mdxItems) {
+    const inputHash = inputHashes.get(item.meta.id);
+    const stories = Object.values(item.stories);
+    if (!inputHash || stories.some(story => !story.parameters.fullSource)) {
+      continue;
+    }
+
+    cache.items[item.meta.id] = {
+      ...cache.items[item.meta.id],
+      inputHash,
+      mdx: Object.fromEntries(stories.map(story => [story.id, story.parameters.fullSource ?? ''])),
+    };
+  }
+}
+
+/**
+ * Hashes a store item together with the options affecting its docs files. The import source is hashed as resolved,
+ * so that a renamed `package.json` is picked up with `importPackageJson`.
+ */
+export function hashItemOutput(
+  args: Pick<Required<Args>, 'tokenizer' | 'tokenBudget' | 'tokenBudgetMaxExamples'> &
+    Pick<
+      Args,
+      | 'docsTemplate'
+      | 'importPackages'
+      | 'importPackageJson'
+      | 'renderers'
+      | 'docsDir'
+      | 'docsFormats'
+      | 'summaryBaseUrl'
+      | 'summaryLinkFormat'
+      | 'indexLinkFormat'
+    >,
+  item: StorybookStoreItem,
+) {
+  const {
+    tokenizer,
+    tokenBudget,
+    tokenBudgetMaxExamples,
+    docsTemplate,
+    renderers,
+    docsDir,
+    docsFormats,
+    summaryBaseUrl,
+    summaryLinkFormat,
+    indexLinkFormat,
+  } = args;
+
+  return hash({
+    item,
+    tokenizer: tokenizer.toString(),
+    tokenBudget,
+    tokenBudgetMaxExamples,
+    template: stringifyFunctions(docsTemplate),
+    importSource: getImportSource(args, item),
+    renderers: stringifyFunctions(renderers),
+    docsDir,
+    docsFormats,
+    summaryBaseUrl,
+    summaryLinkFormat,
+    indexLinkFormat,
+  });
+}
+
+/**
+ * Serializes a value to JSON with its functions, e.g. of the docs template or the renderers, hashed by their source
+ * like the tokenizer.
+ */
+function stringifyFunctions(value: unknown) {
+  return JSON.stringify(value, (_key, nested) =>
+    typeof nested === 'function' ? (nested as () => unknown).toString() : nested,
+  );
+}
+
+function hash(value: unknown) {
+  return createHash('sha256').update(JSON.stringify(value)).digest('hex');
+}
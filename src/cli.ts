@@ -1,35 +1,191 @@
-import { join } from 'node:path';
+import { readFile, writeFile } from 'node:fs/promises';
+import { join, resolve } from 'node:path';
 import { cwd } from 'node:process';
 import yargs from 'yargs';
+import { hideBin } from 'yargs/helpers';
 
-import type { Args, StorybookRef } from './types';
-import { extractStorybookData, writeSummaryFile, writeFullDocsFiles, writeAdditionalFiles } from './utils';
+import { defaultConfig, getDocsPath } from './config';
+import { StrictModeError, formatDiagnostics } from './diagnostics';
+import { formatChangeReport } from './diff';
+import { filterStoreItems } from './filter';
+import { generateLlmsDocs, renderLlmsDocs } from './generate';
+import { loadStoreItemsFromManifest, serveMcp } from './mcp';
+import type {
+  Args,
+  ChangeReport,
+  Diagnostic,
+  DocsTemplate,
+  DocsTemplateFunction,
+  GenerateResult,
+  RendererPlugin,
+  StorybookRef,
+  StorybookStoreItem,
+  Tokenizer,
+} from './types';
+import { extractStorybookData } from './utils';
+import { formatOutputFileProblems, validateLlmsDocs } from './validate';
 
 main().catch(reason => {
-  console.error(reason);
+  console.error(reason instanceof StrictModeError ? `❌ ${reason.message}` : reason);
   process.exit(1);
 });
 
 async function main() {
+  const options = await processArgs();
+
+  switch (options.command) {
+    case 'extract':
+      return extractCommand(options);
+    case 'render':
+      return renderCommand(options);
+    case 'validate':
+      return validateCommand(options);
+    case 'serve':
+      return serveCommand(options);
+    default:
+      return generateCommand(options);
+  }
+}
+
+/**
+ * Extracts the docs from the Storybook build and writes all outputs.
+ */
+async function generateCommand({ args, diffReport }: CliOptions) {
   console.log(`━━ Storybook LLM Docs Generator ━━`);
+  console.log(`ℹ️ Storybook dist path: ${args.distPath}`);
+
+  const result = await generateLlmsDocs(args);
+  logGenerateResult(args, result);
+  await writeChangeReport(result, diffReport);
+}
+
+/**
+ * Extracts the store items from the Storybook build and dumps them as JSON, to be rendered later by `render`.
+ */
+async function extractCommand({ args, output }: CliOptions) {
+  console.log(`━━ Storybook LLM Docs Extractor ━━`);
+  console.log(`ℹ️ Storybook dist path: ${args.distPath}`);
 
-  const args = await processArgs();
+  const warnings: Diagnostic[] = [];
+  const data = await extractStorybookData(args, warnings);
+  logWarnings(warnings);
 
+  await writeFile(output, JSON.stringify(data, null, 2));
+  console.log(`✅ ${data.length} extracted items written to ${output}`);
+}
+
+/**
+ * Writes all outputs from store items previously dumped by `extract`, without a browser.
+ */
+async function renderCommand({ args, input, diffReport }: CliOptions) {
+  console.log(`━━ Storybook LLM Docs Renderer ━━`);
+  console.log(`ℹ️ Rendering ${input} into ${args.outDir}`);
+
+  const result = await renderLlmsDocs(args, await readStoreItems(input));
+  logGenerateResult(args, result);
+  await writeChangeReport(result, diffReport);
+}
+
+/**
+ * Checks that the outputs in the Storybook dist folder are up to date, fails the run otherwise.
+ */
+async function validateCommand({ args, input }: CliOptions) {
+  console.log(`━━ Storybook LLM Docs Validator ━━`);
   console.log(`ℹ️ Storybook dist path: ${args.distPath}`);
 
-  const data = await extractStorybookData(args);
+  const warnings: Diagnostic[] = [];
+  const data = input ? await readStoreItems(input) : await extractStorybookData(args, warnings);
+  const { problems } = await validateLlmsDocs(args, data, warnings);
+  logWarnings(warnings);
 
-  // Write summary/llms.txt file
-  await writeSummaryFile(args, data);
+  if (problems.length > 0) {
+    console.error(`❌ ${problems.length} output file(s) do not match the Storybook build:`);
+    console.error(formatOutputFileProblems(problems));
+    process.exitCode = 1;
+    return;
+  }
 
-  // Write per component/page files
-  await writeFullDocsFiles(args, data);
+  console.log(`✅ LLMs docs are up to date.`);
+}
 
-  // Write HTML summary and sitemap files (after llms directory is ready)
-  await writeAdditionalFiles(args, data);
+/**
+ * Loads the docs from the Storybook build, an `extract` dump or the manifest of a previous run,
+ * and serves them over MCP (stdio).
+ */
+async function serveCommand({ args, input, fromManifest }: CliOptions) {
+  // stdout is reserved for MCP messages, logs go to stderr
+  console.log = console.error;
+  console.log(`━━ Storybook LLM Docs MCP Server ━━`);
 
-  console.log(`✅ LLMs docs generation complete.`);
-  console.log(`ℹ️ You can find the generated files in the Storybook dist folder: ${args.distPath}`);
+  let data: StorybookStoreItem[];
+  if (fromManifest) {
+    data = await loadStoreItemsFromManifest(join(getDocsPath(args), 'manifest.json'));
+  } else if (input) {
+    // The dump may have been extracted with other filters
+    data = filterStoreItems(await readStoreItems(input), args);
+  } else {
+    data = await extractStorybookData(args);
+  }
+
+  console.log(`✅ Serving docs of ${data.length} items over MCP (stdio).`);
+  await serveMcp(args, data);
+}
+
+/**
+ * Reads store items dumped by the `extract` command.
+ */
+async function readStoreItems(input: string): Promise<StorybookStoreItem[]> {
+  const data = JSON.parse(await readFile(input, 'utf-8'));
+  if (!Array.isArray(data)) {
+    throw new Error(`Invalid extracted data in ${input}, expected an array of store items`);
+  }
+  return data;
+}
+
+function logWarnings(warnings: Diagnostic[]) {
+  if (warnings.length > 0) {
+    console.warn(`⚠️ ${warnings.length} problem(s) found, use --strict to fail the run:`);
+    console.warn(formatDiagnostics(warnings));
+  }
+}
+
+function logGenerateResult(args: Required<Args>, result: GenerateResult) {
+  logWarnings(result.warnings);
+  if (result.changes) {
+    logChanges(result.changes);
+  }
+
+  if (args.dryRun) {
+    console.log(
+      `✅ Dry run complete. ${result.files.length} files would be written for ${result.itemsProcessed} items, nothing was written.`,
+    );
+    return;
+  }
+
+  console.log(
+    `✅ LLMs docs generation complete. ${result.files.length} files written for ${result.itemsProcessed} items.`,
+  );
+  console.log(`ℹ️ You can find the generated files in: ${args.outDir}`);
+}
+
+function logChanges(changes: ChangeReport) {
+  if (changes.files.length === 0) {
+    console.log(`ℹ️ No changes compared to the existing LLMs docs.`);
+    return;
+  }
+
+  console.log(`ℹ️ ${changes.files.length} file(s) changed compared to the existing LLMs docs:`);
+  console.log(formatChangeReport(changes));
+}
+
+/**
+ * Writes the changes of a `--diff` run as JSON, e.g. to be posted as a PR comment.
+ */
+async function writeChangeReport({ changes }: GenerateResult, diffReport: string) {
+  if (diffReport && changes) {
+    await writeFile(diffReport, JSON.stringify(changes, null, 2));
+    console.log(`✅ Change report written to ${diffReport}`);
+  }
 }
 
 /**
@@ -68,33 +224,69 @@ function parseRefs(refs: unknown[]): StorybookRef[] {
   return [];
 }
 
+/**
+ * Parsed CLI command and its options.
+ */
+type CliOptions = {
+  command: 'generate' | 'extract' | 'render' | 'validate' | 'serve';
+  args: Required<Args>;
+  /**
+   * Absolute path of the JSON file read by `render`, `validate` and `serve`, empty if not set
+   */
+  input: string;
+  /**
+   * Absolute path of the JSON file written by `extract`
+   */
+  output: string;
+  fromManifest: boolean;
+  /**
+   * Absolute path of the JSON change report written with `--diff`, empty if not set
+   */
+  diffReport: string;
+};
+
 /**
  * Processes CLI arguments for `distPath`, `refs`, and other options.
  *
  * Users are encouraged to provide a yargs-compatible config file (e.g., llms.config.js)
  * that exports all needed options, including a normalized refs array if desired.
  */
-async function processArgs(): Promise<Required<Args>> {
-  const argv = await yargs(process.argv)
+async function processArgs(): Promise<CliOptions> {
+  const argv = await yargs(hideBin(process.argv))
     .usage('CLI to generate LLMs docs for Storybook docs')
+    .command(['generate', '$0'], 'Extract the docs from the Storybook build and generate all LLMs docs')
+    .command('extract', 'Extract the docs from the Storybook build and dump them as JSON (see --output)')
+    .command('render', 'Generate all LLMs docs from a JSON dump of the extract command (see --input), no browser')
+    .command('validate', 'Check that the LLMs docs in the Storybook dist folder are up to date')
+    .command(['serve', 'serve-mcp'], 'Serve the docs as a Model Context Protocol server over stdio')
+    .strictCommands()
     .option('distPath', {
       type: 'string',
       demandOption: true,
       describe: 'Relative path to the Storybook distribution folder',
     })
+    .option('outDir', {
+      type: 'string',
+      describe: 'Relative path to the folder the docs are written to, defaults to distPath',
+    })
+    .option('docsDir', {
+      type: 'string',
+      default: defaultConfig.docsDir,
+      describe: 'Name of the docs subfolder, also used in the docs URLs',
+    })
     .option('summaryBaseUrl', {
       type: 'string',
-      default: '/',
-      describe: 'Base URL for the Storybook docs',
+      default: defaultConfig.summaryBaseUrl,
+      describe: 'Base URL for the Storybook docs, "" or "." for relative links',
     })
     .option('summaryTitle', {
       type: 'string',
-      default: 'Summary',
+      default: defaultConfig.summaryTitle,
       describe: 'Title for the summary file',
     })
     .option('summaryDescription', {
       type: 'string',
-      default: '',
+      default: defaultConfig.summaryDescription,
       describe: 'Description for the summary file',
     })
     .option('refs', {
@@ -102,13 +294,199 @@ async function processArgs(): Promise<Required<Args>> {
       default: [] as StorybookRef[],
       describe: 'Array of composed Storybook refs (objects with id, title, url)',
     })
+    .option('extractMode', {
+      choices: ['browser', 'static', 'auto'] as const,
+      default: defaultConfig.extractMode,
+      describe:
+        'Extract stories in a browser, statically from index.json/stories.json, or statically with browser fallback',
+    })
+    .option('concurrency', {
+      type: 'number',
+      default: defaultConfig.concurrency,
+      describe: 'Maximum number of MDX docs pages rendered in the browser at once',
+    })
+    .option('renderTimeout', {
+      type: 'number',
+      default: defaultConfig.renderTimeout,
+      describe: 'Timeout in ms for a MDX docs page to render',
+    })
+    .option('renderRetries', {
+      type: 'number',
+      default: defaultConfig.renderRetries,
+      describe: 'Number of retries for MDX docs pages that fail to render',
+    })
+    .option('renderRetryDelay', {
+      type: 'number',
+      default: defaultConfig.renderRetryDelay,
+      describe: 'Initial delay in ms between retries, doubled after every attempt',
+    })
+    .option('renderWaitFor', {
+      type: 'string',
+      default: defaultConfig.renderWaitFor,
+      describe: 'Wait condition for MDX docs pages: "selector", "networkidle" or a JS expression evaluated in the page',
+    })
+    .option('strict', {
+      type: 'boolean',
+      default: defaultConfig.strict,
+      describe: 'Fail the run if any problem is found, e.g. empty MDX pages or stories without source',
+    })
+    .option('include', {
+      type: 'array',
+      string: true,
+      default: defaultConfig.include,
+      describe: 'Glob patterns over story titles/ids to include, e.g. "Components/**"',
+    })
+    .option('exclude', {
+      type: 'array',
+      string: true,
+      default: defaultConfig.exclude,
+      describe: 'Glob patterns over story titles/ids to exclude, e.g. "Deprecated/**"',
+    })
+    .option('tags', {
+      type: 'array',
+      string: true,
+      default: defaultConfig.tags,
+      describe: 'Storybook tags stories must have, prefix with "!" to exclude, e.g. "!dev"',
+    })
+    .option('fullSummary', {
+      type: 'boolean',
+      default: defaultConfig.fullSummary,
+      describe: 'Write llms-full.txt with the full documentation of all components and pages',
+    })
+    .option('fullSummaryMaxSize', {
+      type: 'number',
+      default: defaultConfig.fullSummaryMaxSize,
+      describe: 'Maximum size of llms-full.txt in bytes, 0 disables the limit',
+    })
+    .option('summaryGroupDepth', {
+      type: 'number',
+      default: defaultConfig.summaryGroupDepth,
+      describe: 'Number of title segments used to group the summary into sections, 0 for a flat list',
+    })
+    .option('summarySectionOrder', {
+      type: 'array',
+      string: true,
+      default: defaultConfig.summarySectionOrder,
+      describe: 'Order of the top-level summary sections',
+    })
+    .option('summaryOptionalSections', {
+      type: 'array',
+      string: true,
+      default: defaultConfig.summaryOptionalSections,
+      describe: 'Top-level summary sections listed under "## Optional"',
+    })
+    .option('docsFormats', {
+      type: 'array',
+      string: true,
+      choices: ['txt', 'md', 'html.md'] as const,
+      default: defaultConfig.docsFormats,
+      describe: 'Text formats of the docs file written for every component/page',
+    })
+    .option('importPackageJson', {
+      type: 'boolean',
+      default: defaultConfig.importPackageJson,
+      describe: 'Import components from the closest package.json of their file when no importPackages entry matches',
+    })
+    .option('summaryLinkFormat', {
+      choices: ['txt', 'md', 'html.md', 'html'] as const,
+      default: defaultConfig.summaryLinkFormat,
+      describe: 'Format of the docs files linked from llms.txt and llms-full.txt',
+    })
+    .option('indexLinkFormat', {
+      choices: ['txt', 'md', 'html.md', 'html'] as const,
+      default: defaultConfig.indexLinkFormat,
+      describe: 'Format of the docs files linked from the HTML summary',
+    })
+    .option('tokenCounts', {
+      type: 'boolean',
+      default: defaultConfig.tokenCounts,
+      describe: 'Append approximate token counts to the llms.txt entries and the HTML summary',
+    })
+    .option('tokenBudget', {
+      type: 'number',
+      default: defaultConfig.tokenBudget,
+      describe: 'Maximum number of tokens per component docs file, 0 disables the limit',
+    })
+    .option('tokenBudgetMaxExamples', {
+      type: 'number',
+      default: defaultConfig.tokenBudgetMaxExamples,
+      describe: 'Number of examples kept when a docs file exceeds the token budget',
+    })
+    .option('manifest', {
+      type: 'boolean',
+      default: defaultConfig.manifest,
+      describe: 'Write llms/manifest.json, a machine-readable index of all components and pages',
+    })
+    .option('cache', {
+      type: 'boolean',
+      default: defaultConfig.cache,
+      describe: 'Skip unchanged MDX pages and docs files, with a cache stored in llms/.llms-cache.json',
+    })
+    .option('force', {
+      type: 'boolean',
+      default: defaultConfig.force,
+      describe: 'Clean up the docs folder even if it was not created by this tool',
+    })
+    .option('dryRun', {
+      type: 'boolean',
+      default: defaultConfig.dryRun,
+      describe: 'Compute all docs files without writing anything',
+    })
+    .option('diff', {
+      type: 'boolean',
+      default: defaultConfig.diff,
+      describe: 'Print the changes compared to the existing docs files as unified diffs',
+    })
+    .option('diffReport', {
+      type: 'string',
+      describe: 'Path of a JSON report of the changes to write, implies --diff',
+    })
+    .option('fromManifest', {
+      type: 'boolean',
+      default: false,
+      describe: 'serve: load the docs from llms/manifest.json of a previous run instead of the Storybook build',
+    })
+    .option('input', {
+      type: 'string',
+      describe: 'render, validate, serve: JSON dump of the extract command to read instead of the Storybook build',
+    })
+    .option('output', {
+      type: 'string',
+      default: 'llms-data.json',
+      describe: 'extract: path of the JSON dump to write',
+    })
+    .check(argv => {
+      if (argv._[0] === 'render' && !argv.input) {
+        throw new Error('The render command requires --input, the JSON dump of the extract command');
+      }
+      return true;
+    })
     .config()
     .alias('h', 'help')
     .version(false).argv;
 
+  const command = String(argv._[0] ?? 'generate');
+  const distPath = join(cwd(), argv.distPath);
+
   return {
-    ...argv,
-    distPath: join(cwd(), argv.distPath),
-    refs: parseRefs(argv.refs),
+    command: command === 'serve-mcp' ? 'serve' : (command as CliOptions['command']),
+    input: argv.input ? resolve(argv.input) : '',
+    output: resolve(argv.output),
+    fromManifest: argv.fromManifest,
+    diffReport: argv.diffReport ? resolve(argv.diffReport) : '',
+    args: {
+      ...argv,
+      diff: argv.diff || Boolean(argv.diffReport),
+      distPath,
+      outDir: argv.outDir ? join(cwd(), argv.outDir) : distPath,
+      refs: parseRefs(argv.refs),
+      // Only set from a JS config file
+      tokenizer: typeof argv['tokenizer'] === 'function' ? (argv['tokenizer'] as Tokenizer) : defaultConfig.tokenizer,
+      renderers: Array.isArray(argv['renderers']) ? (argv['renderers'] as RendererPlugin[]) : defaultConfig.renderers,
+      importPackages: (argv['importPackages'] as Record<string, string> | undefined) ?? defaultConfig.importPackages,
+      docsTemplate: ['object', 'function'].includes(typeof argv['docsTemplate'])
+        ? (argv['docsTemplate'] as DocsTemplate | DocsTemplateFunction)
+        : defaultConfig.docsTemplate,
+    },
   };
 }
@@ -0,0 +1,82 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+import { countTokens } from './tokens';
+import type { Args } from './types';
+
+/**
+ * Default values for optional config options, shared by the CLI and the Node API.
+ */
+export const defaultConfig: Omit<Required<Args>, 'distPath' | 'outDir'> = {
+  docsDir: 'llms',
+  summaryBaseUrl: '/',
+  summaryTitle: 'Summary',
+  summaryDescription: '',
+  refs: [],
+  extractMode: 'browser',
+  concurrency: 4,
+  renderTimeout: 2000,
+  renderRetries: 1,
+  renderRetryDelay: 500,
+  renderWaitFor: 'selector',
+  strict: false,
+  include: [],
+  exclude: [],
+  tags: [],
+  fullSummary: true,
+  fullSummaryMaxSize: 0,
+  summaryGroupDepth: 1,
+  summarySectionOrder: [],
+  summaryOptionalSections: [],
+  docsFormats: ['txt'],
+  docsTemplate: {},
+  importPackages: {},
+  importPackageJson: false,
+  summaryLinkFormat: 'txt',
+  indexLinkFormat: 'html',
+  tokenCounts: true,
+  tokenizer: countTokens,
+  tokenBudget: 0,
+  tokenBudgetMaxExamples: 3,
+  manifest: true,
+  renderers: [],
+  cache: false,
+  force: false,
+  dryRun: false,
+  diff: false,
+};
+
+/**
+ * Fills in defaults for all optional config options and resolves `distPath` and `outDir` against the current working
+ * directory. `outDir` defaults to `distPath`.
+ */
+export function resolveConfig(config: Args): Required<Args> {
+  const definedOptions = Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined));
+
+  return {
+    ...defaultConfig,
+    ...definedOptions,
+    distPath: resolve(config.distPath),
+    outDir: resolve(config.outDir ?? config.distPath),
+  };
+}
+
+/**
+ * Returns the absolute path of the docs subfolder, e.g. `storybook-static/llms`.
+ */
+export function getDocsPath({ outDir, docsDir }: Pick<Required<Args>, 'outDir' | 'docsDir'>) {
+  return join(outDir, docsDir);
+}
+
+/**
+ * Reads the version of this package, reported to MCP clients and stored in the cache.
+ */
+export function getPackageVersion() {
+  for (let dir = __dirname; dir !== dirname(dir); dir = dirname(dir)) {
+    const packageJsonPath = join(dir, 'package.json');
+    if (existsSync(packageJsonPath)) {
+      return JSON.parse(readFileSync(packageJsonPath, 'utf-8')).version as string;
+    }
+  }
+  return '0.0.0';
+}
@@ -0,0 +1,136 @@
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { StrictModeError, collectContentDiagnostics, collectTokenBudgetDiagnostics } from './diagnostics';
+import type { StorybookStoreItem } from './types';
+
+describe('diagnostics', () => {
+  describe('collectContentDiagnostics', () => {
+    it('should not report problems for complete store items', () => {
+      expect(collectContentDiagnostics(storybookStoreItems)).toEqual([]);
+    });
+
+    it('should report empty MDX pages, missing props and missing story sources', () => {
+      const data: StorybookStoreItem[] = [
+        {
+          meta: { id: 'concepts-empty', title: 'Concepts/Empty', parameters: { fileName: 'empty.mdx' } },
+          stories: {
+            'concepts-empty--docs': {
+              id: 'concepts-empty--docs',
+              name: 'Docs',
+              parameters: { docs: {}, docsOnly: true, fullSource: '' },
+            },
+          },
+        },
+        {
+          meta: { id: 'components-button', title: 'Components/Button', parameters: { fileName: 'button.tsx' } },
+          stories: {
+            'components-button--default': {
+              id: 'components-button--default',
+              name: 'Default',
+              parameters: { docs: {} },
+            },
+          },
+        },
+      ];
+
+      expect(collectContentDiagnostics(data)).toEqual([
+        { code: 'empty-mdx', message: 'MDX page "Concepts/Empty" has no content', itemId: 'concepts-empty' },
+        {
+          code: 'missing-props',
+          message: 'Component "Components/Button" has no docgen props or argTypes',
+          itemId: 'components-button',
+        },
+        {
+          code: 'missing-story-source',
+          message: 'Story "Components/Button/Default" (components-button--default) has no source',
+          itemId: 'components-button',
+          storyId: 'components-button--default',
+        },
+      ]);
+    });
+
+    it('should treat argTypes as props and report every story without source', () => {
+      const data: StorybookStoreItem[] = [
+        {
+          meta: {
+            id: 'components-button',
+            title: 'Components/Button',
+            parameters: { fileName: 'button.tsx' },
+            argTypes: { appearance: { description: 'Visual style' } },
+          },
+          stories: {
+            'components-button--default': {
+              id: 'components-button--default',
+              name: 'Default',
+              parameters: { docs: {} },
+            },
+            'components-button--large': { id: 'components-button--large', name: 'Large', parameters: { docs: {} } },
+          },
+        },
+      ];
+
+      expect(collectContentDiagnostics(data).map(({ code, storyId }) => [code, storyId])).toEqual([
+        ['missing-story-source', 'components-button--default'],
+        ['missing-story-source', 'components-button--large'],
+      ]);
+    });
+
+    it('should not duplicate problems already reported for the same item', () => {
+      const data: StorybookStoreItem[] = [
+        {
+          meta: { id: 'concepts-empty', title: 'Concepts/Empty', parameters: { fileName: 'empty.mdx' } },
+          stories: {
+            'concepts-empty--docs': {
+              id: 'concepts-empty--docs',
+              name: 'Docs',
+              parameters: { docs: {}, docsOnly: true },
+            },
+          },
+        },
+      ];
+      const diagnostics = collectContentDiagnostics(data, [
+        { code: 'empty-mdx', message: 'Failed to extract MDX content', itemId: 'concepts-empty' },
+      ]);
+
+      expect(diagnostics).toHaveLength(1);
+    });
+  });
+
+  describe('collectTokenBudgetDiagnostics', () => {
+    it('should not report anything without a budget', () => {
+      expect(collectTokenBudgetDiagnostics({ tokenBudget: 0 }, storybookStoreItems)).toEqual([]);
+    });
+
+    it('should report docs exceeding the budget after trimming', () => {
+      expect(collectTokenBudgetDiagnostics({ tokenBudget: 500 }, storybookStoreItems)).toEqual([
+        {
+          code: 'token-budget-exceeded',
+          message: 'Docs of "Concepts/Developer/Quick Start" have 682 tokens, exceeding the budget of 500',
+          itemId: 'concepts-developer-quick-start',
+        },
+        {
+          code: 'token-budget-exceeded',
+          message: 'Docs of "Components/Accordion" have 1663 tokens, exceeding the budget of 500',
+          itemId: 'components-accordion',
+        },
+      ]);
+    });
+  });
+
+  describe('StrictModeError', () => {
+    it('should summarize all diagnostics in the message', () => {
+      const error = new StrictModeError([
+        { code: 'missing-props', message: 'Component "Components/Button" has no docgen props' },
+        { code: 'invalid-store-item', message: 'Skipped invalid store item: null' },
+      ]);
+
+      expect(error.message).toBe(
+        [
+          'Strict mode: 2 problem(s) found.',
+          '  - [missing-props] Component "Components/Button" has no docgen props',
+          '  - [invalid-store-item] Skipped invalid store item: null',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import type { Args, Diagnostic, StorybookStoreItem } from './types';
+import { generateBudgetedFileContent } from './utils';
+
+/**
+ * Thrown in `strict` mode when any diagnostic was collected, before any file is written.
+ */
+export class StrictModeError extends Error {
+  constructor(readonly diagnostics: Diagnostic[]) {
+    super(`Strict mode: ${diagnostics.length} problem(s) found.\n${formatDiagnostics(diagnostics)}`);
+    this.name = 'StrictModeError';
+  }
+}
+
+/**
+ * Checks the extracted store items for content problems and appends them to `diagnostics`:
+ * empty MDX pages, components without docgen props or argTypes and stories without source.
+ * Problems already reported for an item with the same code (e.g. MDX render failures) are not duplicated.
+ */
+export function collectContentDiagnostics(data: StorybookStoreItem[], diagnostics: Diagnostic[] = []) {
+  const report = (diagnostic: Diagnostic) => {
+    const isReported = diagnostics.some(
+      ({ code, itemId, storyId }) =>
+        code === diagnostic.code &&
+        itemId !== undefined &&
+        itemId === diagnostic.itemId &&
+        storyId === diagnostic.storyId,
+    );
+    if (!isReported) {
+      diagnostics.push(diagnostic);
+    }
+  };
+
+  for (const item of data) {
+    if (!item?.meta || !item.stories) {
+      continue;
+    }
+
+    const stories = Object.values(item.stories);
+    const isMDXPage = stories.every(s => s.parameters?.docsOnly);
+
+    if (isMDXPage) {
+      if (!stories.some(s => s.parameters?.fullSource?.trim())) {
+        report({
+          code: 'empty-mdx',
+          message: `MDX page "${item.meta.title}" has no content`,
+          itemId: item.meta.id,
+        });
+      }
+      continue;
+    }
+
+    // Components without docgen are documented from their argTypes
+    const props = { ...item.meta.component?.__docgenInfo?.props, ...item.meta.argTypes };
+    if (Object.keys(props).length === 0) {
+      report({
+        code: 'missing-props',
+        message: `Component "${item.meta.title}" has no docgen props or argTypes`,
+        itemId: item.meta.id,
+      });
+    }
+
+    for (const story of stories) {
+      if (!story.parameters?.fullSource && !story.parameters?.docs?.source?.originalSource) {
+        report({
+          code: 'missing-story-source',
+          message: `Story "${item.meta.title}/${story.name}" (${story.id}) has no source`,
+          itemId: item.meta.id,
+          storyId: story.id,
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Appends a `token-budget-exceeded` diagnostic for every docs file exceeding `tokenBudget` after trimming.
+ */
+export function collectTokenBudgetDiagnostics(
+  args: Pick<Args, 'tokenizer' | 'tokenBudget' | 'tokenBudgetMaxExamples'>,
+  data: StorybookStoreItem[],
+  diagnostics: Diagnostic[] = [],
+) {
+  if (!args.tokenBudget) {
+    return diagnostics;
+  }
+
+  for (const item of data) {
+    if (!item?.meta || !item.stories) {
+      continue;
+    }
+
+    const { tokens, exceedsBudget } = generateBudgetedFileContent(args, item);
+    if (exceedsBudget) {
+      diagnostics.push({
+        code: 'token-budget-exceeded',
+        message: `Docs of "${item.meta.title}" have ${tokens} tokens, exceeding the budget of ${args.tokenBudget}`,
+        itemId: item.meta.id,
+      });
+    }
+  }
+
+  return diagnostics;
+}
+
+/**
+ * Formats diagnostics as a bullet list, one `[code] message` per line.
+ */
+export function formatDiagnostics(diagnostics: Diagnostic[]) {
+  return diagnostics.map(({ code, message }) => `  - [${code}] ${message}`).join('\n');
+}
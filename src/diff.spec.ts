@@ -0,0 +1,99 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { resolveConfig } from './config';
+import { createUnifiedDiff, diffOutputFiles, formatChangeReport } from './diff';
+import { generateOutputFiles, renderLlmsDocs } from './generate';
+
+describe('diff', () => {
+  describe('createUnifiedDiff', () => {
+    it('should create hunks with context around the changed lines', () => {
+      const before = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm'].join('\n');
+      const after = ['a', 'B', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm', 'n'].join('\n');
+
+      expect(createUnifiedDiff('llms.txt', before, after)).toBe(
+        [
+          '--- a/llms.txt',
+          '+++ b/llms.txt',
+          '@@ -1,5 +1,5 @@',
+          ' a',
+          '-b',
+          '+B',
+          ' c',
+          ' d',
+          ' e',
+          '@@ -11,3 +11,4 @@',
+          ' k',
+          ' l',
+          ' m',
+          '+n',
+        ].join('\n'),
+      );
+    });
+
+    it('should diff added and removed files against /dev/null', () => {
+      expect(createUnifiedDiff('llms/new.txt', undefined, '# New\n\nText')).toBe(
+        ['--- /dev/null', '+++ b/llms/new.txt', '@@ -0,0 +1,3 @@', '+# New', '+', '+Text'].join('\n'),
+      );
+      expect(createUnifiedDiff('llms/old.txt', '# Old')).toBe(
+        ['--- a/llms/old.txt', '+++ /dev/null', '@@ -1,1 +0,0 @@', '-# Old'].join('\n'),
+      );
+    });
+
+    it('should return an empty diff for identical contents', () => {
+      expect(createUnifiedDiff('llms.txt', 'same', 'same')).toBe('');
+    });
+  });
+
+  describe('diffOutputFiles', () => {
+    let distPath: string;
+
+    beforeEach(async () => {
+      distPath = await mkdtemp(join(tmpdir(), 'diff-spec-'));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    });
+
+    afterEach(async () => {
+      jest.restoreAllMocks();
+      await rm(distPath, { recursive: true, force: true });
+    });
+
+    it('should group the changed files by component and page', async () => {
+      const [introduction, quickStart, accordion] = storybookStoreItems;
+      const args = resolveConfig({ ...argsWithRefs, distPath });
+      await renderLlmsDocs(args, [introduction!, quickStart!]);
+
+      const data = [{ ...introduction!, meta: { ...introduction!.meta, title: 'Concepts/Welcome' } }, accordion!];
+      const report = await diffOutputFiles(args, data, generateOutputFiles(args, data));
+
+      expect(report.items).toEqual({
+        added: ['components-accordion'],
+        removed: ['concepts-developer-quick-start'],
+        modified: ['concepts-introduction'],
+      });
+      expect(report.files.find(({ file }) => file === 'llms/concepts-introduction.html')?.diff).toContain(
+        '-  <title>Concepts/Introduction</title>\n+  <title>Concepts/Welcome</title>',
+      );
+      expect(report.files.some(({ file }) => file === 'llms/sitemap.xml')).toBe(true);
+      expect(formatChangeReport(report)).toMatch(
+        /^Added \(1\):\n {2}\+ components-accordion\nRemoved \(1\):\n {2}- concepts-developer-quick-start\n/,
+      );
+    });
+
+    it('should ignore sitemap dates', async () => {
+      const args = resolveConfig({ ...argsWithRefs, distPath });
+      await renderLlmsDocs(args, storybookStoreItems);
+      const sitemapPath = join(distPath, 'llms', 'sitemap.xml');
+      const sitemap = await readFile(sitemapPath, 'utf-8');
+      await writeFile(sitemapPath, sitemap.replace(/<lastmod>[^<]*<\/lastmod>/g, '<lastmod>2020-01-01</lastmod>'));
+
+      const report = await diffOutputFiles(args, storybookStoreItems, generateOutputFiles(args, storybookStoreItems));
+
+      expect(report.files).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+import { existsSync } from 'node:fs';
+import { readFile, readdir } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+
+import { CACHE_FILE_NAME } from './cache';
+import { getDocsPath } from './config';
+import type { Args, ChangeReport, OutputFile, OutputFileChange, StorybookStoreItem } from './types';
+import { DOCS_DIR_MARKER } from './utils';
+
+/**
+ * Lines of context around the changes of a unified diff.
+ */
+const DIFF_CONTEXT_LINES = 3;
+
+/**
+ * Above this number of line edits, changed lines are not matched anymore and the diff shows a full replacement.
+ */
+const MAX_DIFF_EDITS = 2000;
+
+/**
+ * Extensions of the docs files of a component/page, `.html.md` before `.md` and `.html`.
+ */
+const ITEM_FILE_EXTENSIONS = ['.txt', '.html.md', '.md', '.html'];
+
+type DiffLine = { type: ' ' | '-' | '+'; text: string };
+
+/**
+ * Compares the docs files computed in memory with the existing ones in `outDir`. Files in the docs folder that would
+ * not be generated anymore are reported as removed. Sitemap `lastmod` dates, the generation cache and the docs folder
+ * marker are ignored.
+ */
+export async function diffOutputFiles(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  outputFiles: OutputFile[],
+): Promise<ChangeReport> {
+  const files: OutputFileChange[] = [];
+
+  for (const { file, content } of outputFiles) {
+    const actualPath = join(args.outDir, file);
+    if (!existsSync(actualPath)) {
+      files.push({ file, status: 'added', diff: createUnifiedDiff(file, undefined, content) });
+      continue;
+    }
+
+    const actual = await readFile(actualPath, 'utf-8');
+    if (normalizeOutput(actual) !== normalizeOutput(content)) {
+      files.push({ file, status: 'modified', diff: createUnifiedDiff(file, actual, content) });
+    }
+  }
+
+  const docsPath = getDocsPath(args);
+  const ignoredFiles = [CACHE_FILE_NAME, DOCS_DIR_MARKER];
+  if (existsSync(docsPath)) {
+    for (const entry of await readdir(docsPath, { recursive: true, withFileTypes: true })) {
+      const actualPath = join(entry.parentPath, entry.name);
+      const file = relative(args.outDir, actualPath).split(sep).join('/');
+      if (entry.isFile() && !ignoredFiles.includes(entry.name) && !outputFiles.some(output => output.file === file)) {
+        files.push({ file, status: 'removed', diff: createUnifiedDiff(file, await readFile(actualPath, 'utf-8')) });
+      }
+    }
+  }
+
+  return { items: groupItemChanges(args, data, outputFiles, files), files };
+}
+
+/**
+ * Removes the parts of the output that change on every run.
+ */
+export function normalizeOutput(content: string) {
+  return content.replace(/<lastmod>[^<]*<\/lastmod>/g, '<lastmod></lastmod>');
+}
+
+/**
+ * Groups the file changes by component/page: an item is added when none of its files existed, removed when it is not
+ * part of the store items anymore and modified otherwise.
+ */
+function groupItemChanges(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  outputFiles: OutputFile[],
+  changes: OutputFileChange[],
+): ChangeReport['items'] {
+  const items: ChangeReport['items'] = { added: [], removed: [], modified: [] };
+  const itemIds = new Set(data.map(item => item.meta.id));
+
+  for (const itemId of new Set(changes.map(({ file }) => getItemId(args, file)))) {
+    if (!itemId) {
+      continue;
+    }
+
+    const itemOutputFiles = outputFiles.filter(({ file }) => getItemId(args, file) === itemId);
+    const addedFiles = changes.filter(change => change.status === 'added' && getItemId(args, change.file) === itemId);
+    if (!itemIds.has(itemId)) {
+      items.removed.push(itemId);
+    } else if (addedFiles.length === itemOutputFiles.length) {
+      items.added.push(itemId);
+    } else {
+      items.modified.push(itemId);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Returns the id of the component/page of a docs file, `undefined` for the summary, sitemap and manifest files.
+ */
+function getItemId({ docsDir }: Required<Args>, file: string) {
+  const name = file.slice(docsDir.length + 1);
+  if (!file.startsWith(`${docsDir}/`) || name.includes('/') || name === 'index.html') {
+    return undefined;
+  }
+
+  const extension = ITEM_FILE_EXTENSIONS.find(itemExtension => name.endsWith(itemExtension));
+  return extension ? name.slice(0, -extension.length) : undefined;
+}
+
+/**
+ * Creates a unified diff (as `diff -u` or `git diff`) between two versions of a file.
+ * `before` is `undefined` for an added file, `after` for a removed one. Returns an empty string without changes.
+ */
+export function createUnifiedDiff(file: string, before?: string, after?: string) {
+  const lines = diffLines(before ? before.split('\n') : [], after ? after.split('\n') : []);
+  const hunks = createHunks(lines);
+  if (hunks.length === 0) {
+    return '';
+  }
+
+  return [
+    before === undefined ? '--- /dev/null' : `--- a/${file}`,
+    after === undefined ? '+++ /dev/null' : `+++ b/${file}`,
+    ...hunks,
+  ].join('\n');
+}
+
+/**
+ * Formats the hunks of a line diff, changes closer than twice the context are merged into the same hunk.
+ */
+function createHunks(lines: DiffLine[]) {
+  const changeIndexes = lines.flatMap((line, index) => (line.type === ' ' ? [] : [index]));
+  const hunks: string[] = [];
+
+  let groupStart = 0;
+  while (groupStart < changeIndexes.length) {
+    let groupEnd = groupStart;
+    while (
+      groupEnd + 1 < changeIndexes.length &&
+      changeIndexes[groupEnd + 1]! - changeIndexes[groupEnd]! <= DIFF_CONTEXT_LINES * 2 + 1
+    ) {
+      groupEnd++;
+    }
+
+    const start = Math.max(0, changeIndexes[groupStart]! - DIFF_CONTEXT_LINES);
+    const end = Math.min(lines.length, changeIndexes[groupEnd]! + DIFF_CONTEXT_LINES + 1);
+    const hunkLines = lines.slice(start, end);
+    const linesBefore = lines.slice(0, start);
+    const oldStart = linesBefore.filter(line => line.type !== '+').length;
+    const newStart = linesBefore.filter(line => line.type !== '-').length;
+    const oldCount = hunkLines.filter(line => line.type !== '+').length;
+    const newCount = hunkLines.filter(line => line.type !== '-').length;
+
+    hunks.push(
+      `@@ -${oldCount ? oldStart + 1 : oldStart},${oldCount} +${newCount ? newStart + 1 : newStart},${newCount} @@`,
+      ...hunkLines.map(line => `${line.type}${line.text}`),
+    );
+    groupStart = groupEnd + 1;
+  }
+
+  return hunks;
+}
+
+/**
+ * Computes the shortest line edit script between `a` and `b` with the Myers algorithm, after stripping the common
+ * prefix and suffix.
+ */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const equal = (lines: string[]) => lines.map((text): DiffLine => ({ type: ' ', text }));
+  const middle = myersDiff(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+
+  return [...equal(a.slice(0, prefix)), ...middle, ...equal(a.slice(a.length - suffix))];
+}
+
+function myersDiff(a: string[], b: string[]): DiffLine[] {
+  const max = a.length + b.length;
+  const v = new Array<number>(2 * max + 2).fill(0);
+  // `trace[d]` holds the furthest x of the diagonals -d..d before step d
+  const trace: number[][] = [];
+
+  for (let d = 0; d <= Math.min(max, MAX_DIFF_EDITS); d++) {
+    trace.push(v.slice(max - d, max + d + 1));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[max + k - 1]! < v[max + k + 1]!) ? v[max + k + 1]! : v[max + k - 1]! + 1;
+      let y = x - k;
+      while (x < a.length && y < b.length && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[max + k] = x;
+
+      if (x >= a.length && y >= b.length) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return [...a.map((text): DiffLine => ({ type: '-', text })), ...b.map((text): DiffLine => ({ type: '+', text }))];
+}
+
+function backtrack(a: string[], b: string[], trace: number[][]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = (k: number) => trace[d]![k + d]!;
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous(k - 1) < previous(k + 1)) ? k + 1 : k - 1;
+    const previousX = previous(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      lines.push({ type: ' ', text: a[--x]! });
+      y--;
+    }
+    if (x === previousX) {
+      lines.push({ type: '+', text: b[--y]! });
+    } else {
+      lines.push({ type: '-', text: a[--x]! });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    lines.push({ type: ' ', text: a[--x]! });
+    y--;
+  }
+
+  return lines.reverse();
+}
+
+/**
+ * Formats a change report: the added, removed and modified components/pages, followed by the diff of every file.
+ */
+export function formatChangeReport({ items, files }: ChangeReport) {
+  const lines: string[] = [];
+
+  for (const [status, symbol] of [
+    ['added', '+'],
+    ['removed', '-'],
+    ['modified', '~'],
+  ] as const) {
+    if (items[status].length > 0) {
+      lines.push(`${status[0]!.toUpperCase()}${status.slice(1)} (${items[status].length}):`);
+      lines.push(...items[status].map(itemId => `  ${symbol} ${itemId}`));
+    }
+  }
+
+  for (const { diff } of files) {
+    lines.push('', diff);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,89 @@
+import { hostileArgs, hostileStoreItems } from './__fixtures__/hostile-store-items';
+
+import { resolveConfig } from './config';
+import { escapeHtml, escapeUrl, escapeXml, sanitizeUrl } from './escape';
+import { generateFullFileHtmlContentFromStory, generateSitemapContent, generateSummaryHtmlContent } from './utils';
+
+describe('escape', () => {
+  describe('escapeHtml', () => {
+    it('should escape markup and double quotes', () => {
+      expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+        `&lt;a href=&quot;x&quot;&gt;Tom &amp; 'Jerry'&lt;/a&gt;`,
+      );
+    });
+  });
+
+  describe('escapeXml', () => {
+    it('should also escape single quotes', () => {
+      expect(escapeXml(`https://example.com/?a=1&b='2'`)).toBe('https://example.com/?a=1&amp;b=&apos;2&apos;');
+    });
+  });
+
+  describe('sanitizeUrl', () => {
+    it('should keep safe and relative URLs', () => {
+      expect(sanitizeUrl('https://example.com/a?b=1&c=2#d')).toBe('https://example.com/a?b=1&c=2#d');
+      expect(sanitizeUrl('mailto:team@example.com')).toBe('mailto:team@example.com');
+      expect(sanitizeUrl('../llms/button.html')).toBe('../llms/button.html');
+    });
+
+    it('should reject unsafe protocols, also when obfuscated', () => {
+      expect(sanitizeUrl('javascript:alert(1)')).toBeUndefined();
+      expect(sanitizeUrl(' JavaScript:alert(1)')).toBeUndefined();
+      expect(sanitizeUrl('java\tscript:alert(1)')).toBeUndefined();
+      expect(sanitizeUrl('java&#115;cript:alert(1)')).toBeUndefined();
+      expect(sanitizeUrl('javascript&colon;alert(1)')).toBeUndefined();
+      expect(sanitizeUrl('data:text/html,<script>alert(1)</script>')).toBeUndefined();
+      expect(sanitizeUrl('vbscript:msgbox(1)')).toBeUndefined();
+    });
+
+    it('should percent-encode characters that can break out of attributes', () => {
+      expect(sanitizeUrl('https://example.com/a b"<c>')).toBe('https://example.com/a%20b%22%3Cc%3E');
+    });
+  });
+
+  describe('escapeUrl', () => {
+    it('should escape URLs for attributes and replace unsafe ones', () => {
+      expect(escapeUrl('https://example.com/?a=1&b=2')).toBe('https://example.com/?a=1&amp;b=2');
+      expect(escapeUrl('javascript:alert(1)')).toBe('#');
+    });
+  });
+
+  describe('generated HTML and XML', () => {
+    const args = resolveConfig(hostileArgs);
+
+    it('should escape the summary page', () => {
+      const html = generateSummaryHtmlContent(args, hostileStoreItems);
+
+      expect(html).not.toMatch(/<script|<img|<b>|javascript:|" onmouseover/);
+      expect(html).toContain('<title>Docs &lt;script&gt;alert(&quot;title&quot;)&lt;/script&gt;</title>');
+      expect(html).toContain('<p>Tom &amp; Jerry &lt;img src=x onerror=alert(1)&gt;</p>');
+      expect(html).toContain('<a href="#" target="_blank">&lt;b&gt;Evil&lt;/b&gt; ref</a>');
+      expect(html).toContain('href="https://example.com/%22%20onmouseover=%22alert(1)/llms.txt"');
+      expect(html).toContain('href="https://example.com/docs?a=1&amp;b=2/llms/components-hostile.html"');
+      expect(html).toContain('A component with &lt;b&gt;markup&lt;/b&gt; &amp; &quot;quotes&quot;.');
+    });
+
+    it('should escape the component page', () => {
+      const html = generateFullFileHtmlContentFromStory(args, hostileStoreItems[0]!);
+
+      expect(html).not.toMatch(/<script|<img|<b>|<i>|<li>|<a>|<\/p><script/);
+      expect(html).toContain('<h1>Components/&lt;script&gt;alert(1)&lt;/script&gt;</h1>');
+      expect(html).toContain('<td><code>Array&lt;string&gt;</code></td>');
+      expect(html).toContain('<td>[&quot;&lt;a&gt;&quot;, &quot;b&quot;]</td>');
+      expect(html).toContain('<h3>&lt;HostileItem&gt;</h3>');
+      expect(html).toContain('<td><code>on&lt;Click&gt;</code></td>');
+      expect(html).toContain('<h3>Default &lt;img src=x onerror=alert(1)&gt;</h3>');
+      expect(html).toContain(
+        'export const Default = () =&gt; &lt;Hostile items={[&quot;&amp;amp;&quot;, &quot;&lt;/code&gt;&quot;]} /&gt;;',
+      );
+    });
+
+    it('should escape the sitemap', () => {
+      const xml = generateSitemapContent(args, hostileStoreItems);
+
+      expect(xml).toContain('<loc>https://example.com/docs?a=1&amp;b=2/llms.txt</loc>');
+      expect(xml).toContain('<loc>https://example.com/docs?a=1&amp;b=2/llms/components-hostile.html</loc>');
+      expect(xml).not.toMatch(/&(?!amp;|lt;|gt;|quot;|apos;)/);
+    });
+  });
+});
@@ -0,0 +1,55 @@
+/**
+ * Protocols allowed in the links of the generated HTML, relative URLs are always allowed.
+ */
+const SAFE_URL_PROTOCOLS = ['http', 'https', 'mailto', 'tel'];
+
+/**
+ * Escapes text for HTML element content and double-quoted attribute values.
+ */
+export function escapeHtml(text: string) {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Escapes text for XML element content and attribute values.
+ */
+export function escapeXml(text: string) {
+  return escapeHtml(text).replace(/'/g, '&apos;');
+}
+
+/**
+ * Returns the URL with its character references decoded and unsafe characters percent-encoded, `undefined` if its
+ * protocol is not allowed, e.g. `javascript:` or `data:`. The result still has to be escaped for its context.
+ */
+export function sanitizeUrl(url: string) {
+  const decoded = decodeCharacterReferences(url.trim());
+  // Browsers ignore control characters and whitespace in the protocol, e.g. `java\tscript:`
+  const protocol = /^([a-z][a-z\d+.-]*):/i.exec(decoded.replace(/[\u0000- ]/g, ''));
+  if (protocol && !SAFE_URL_PROTOCOLS.includes(protocol[1]!.toLowerCase())) {
+    return undefined;
+  }
+
+  return decoded.replace(/[^\w\-.~:/?#[\]@!$&'()*+,;=%]/g, char => encodeURIComponent(char));
+}
+
+/**
+ * Escapes a URL for a double-quoted `href`/`src` attribute, unsafe URLs are replaced by `#`.
+ */
+export function escapeUrl(url: string) {
+  return escapeHtml(sanitizeUrl(url) ?? '#');
+}
+
+/**
+ * Decodes numeric and basic named character references, which browsers decode in attribute values.
+ */
+function decodeCharacterReferences(text: string) {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", colon: ':', tab: '\t' };
+
+  return text.replace(/&(?:#(\d{1,7})|#[xX]([\dA-Fa-f]{1,6})|([a-zA-Z]+));/g, (reference, decimal, hex, name) => {
+    if (name) {
+      return named[(name as string).toLowerCase()] ?? reference;
+    }
+    const codePoint = decimal ? parseInt(decimal, 10) : parseInt(hex, 16);
+    return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : '�';
+  });
+}
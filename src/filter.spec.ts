@@ -0,0 +1,73 @@
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { filterStoreItems, globToRegExp } from './filter';
+import type { StorybookStoreItem } from './types';
+
+describe('filter', () => {
+  describe('globToRegExp', () => {
+    it('should match single and multiple title segments', () => {
+      expect(globToRegExp('Concepts/*').test('Concepts/Introduction')).toBe(true);
+      expect(globToRegExp('Concepts/*').test('Concepts/Developer/Quick Start')).toBe(false);
+      expect(globToRegExp('Concepts/**').test('Concepts/Developer/Quick Start')).toBe(true);
+      expect(globToRegExp('components-?ccordion').test('components-accordion')).toBe(true);
+      expect(globToRegExp('Components (v9)/*').test('Components (v9)/Button')).toBe(true);
+    });
+  });
+
+  describe('filterStoreItems', () => {
+    const ids = (data: StorybookStoreItem[]) => data.map(item => item.meta.id);
+
+    it('should keep all items without filters', () => {
+      expect(filterStoreItems(storybookStoreItems, {})).toEqual(storybookStoreItems);
+    });
+
+    it('should filter by include and exclude patterns over title and id', () => {
+      expect(ids(filterStoreItems(storybookStoreItems, { include: ['Concepts/**'] }))).toEqual([
+        'concepts-introduction',
+        'concepts-developer-quick-start',
+      ]);
+      expect(ids(filterStoreItems(storybookStoreItems, { exclude: ['Concepts/**', 'components-*'] }))).toEqual([]);
+      expect(
+        ids(filterStoreItems(storybookStoreItems, { include: ['Concepts/**'], exclude: ['*-quick-start'] })),
+      ).toEqual(['concepts-introduction']);
+    });
+
+    it('should filter stories by tags and drop items without remaining stories', () => {
+      const data: StorybookStoreItem[] = [
+        {
+          meta: { id: 'components-button', title: 'Components/Button', parameters: { fileName: 'button.tsx' } },
+          stories: {
+            'components-button--default': {
+              id: 'components-button--default',
+              name: 'Default',
+              tags: ['autodocs'],
+              parameters: { docs: {} },
+            },
+            'components-button--playground': {
+              id: 'components-button--playground',
+              name: 'Playground',
+              tags: ['autodocs', 'dev'],
+              parameters: { docs: {} },
+            },
+          },
+        },
+        {
+          meta: { id: 'internal-sandbox', title: 'Internal/Sandbox', parameters: { fileName: 'sandbox.tsx' } },
+          stories: {
+            'internal-sandbox--default': {
+              id: 'internal-sandbox--default',
+              name: 'Default',
+              tags: ['dev'],
+              parameters: { docs: {} },
+            },
+          },
+        },
+      ];
+
+      const filtered = filterStoreItems(data, { tags: ['autodocs', '!dev'] });
+
+      expect(ids(filtered)).toEqual(['components-button']);
+      expect(Object.keys(filtered[0]?.stories ?? {})).toEqual(['components-button--default']);
+    });
+  });
+});
@@ -0,0 +1,90 @@
+import type { Args, StorybookStoreItem, StorybookStoreItemStory } from './types';
+
+/**
+ * Options for `filterStoreItems`.
+ */
+export type FilterOptions = Pick<Args, 'include' | 'exclude' | 'tags'>;
+
+/**
+ * Filters store items by `include`/`exclude` glob patterns over `meta.title` and `meta.id`, and stories by tags.
+ * Items whose stories are all filtered out by tags are dropped. Items without stories (MDX pages not rendered yet)
+ * are checked against the component-level `meta.tags`.
+ */
+export function filterStoreItems(data: StorybookStoreItem[], { include = [], exclude = [], tags = [] }: FilterOptions) {
+  const includePatterns = include.map(globToRegExp);
+  const excludePatterns = exclude.map(globToRegExp);
+  const requiredTags = tags.filter(tag => !tag.startsWith('!'));
+  const excludedTags = tags.filter(tag => tag.startsWith('!')).map(tag => tag.slice(1));
+
+  const matchesTags = (itemTags: string[] = []) =>
+    requiredTags.every(tag => itemTags.includes(tag)) && !excludedTags.some(tag => itemTags.includes(tag));
+
+  const result: StorybookStoreItem[] = [];
+
+  for (const item of data) {
+    if (!item?.meta) {
+      // Invalid items are reported by the extraction
+      result.push(item);
+      continue;
+    }
+
+    const matches = (pattern: RegExp) => pattern.test(item.meta.title) || pattern.test(item.meta.id);
+    if (includePatterns.length > 0 && !includePatterns.some(matches)) {
+      continue;
+    }
+    if (excludePatterns.some(matches)) {
+      continue;
+    }
+
+    if (tags.length === 0) {
+      result.push(item);
+      continue;
+    }
+
+    const stories = Object.values(item.stories ?? {});
+    if (stories.length === 0) {
+      if (matchesTags(item.meta.tags)) {
+        result.push(item);
+      }
+      continue;
+    }
+
+    const filteredStories: Record<string, StorybookStoreItemStory> = {};
+    for (const story of stories) {
+      if (matchesTags(story.tags ?? item.meta.tags)) {
+        filteredStories[story.id] = story;
+      }
+    }
+
+    if (Object.keys(filteredStories).length > 0) {
+      result.push({ ...item, stories: filteredStories });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Converts a glob pattern to a regular expression matching the whole string.
+ * `**` matches any characters, `*` any characters except `/`, `?` a single character except `/`.
+ */
+export function globToRegExp(pattern: string) {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] ?? '';
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,172 @@
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { generateLlmsDocs, renderLlmsDocs } from './generate';
+
+describe('generate', () => {
+  let tempPath: string;
+
+  beforeEach(async () => {
+    tempPath = await mkdtemp(join(tmpdir(), 'generate-spec-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(tempPath, { recursive: true, force: true });
+  });
+
+  describe('generateLlmsDocs', () => {
+    it('should write the docs of a static Storybook build', async () => {
+      await writeFile(
+        join(tempPath, 'index.json'),
+        JSON.stringify({
+          v: 5,
+          entries: {
+            'components-badge--primary': {
+              id: 'components-badge--primary',
+              title: 'Components/Badge',
+              name: 'Primary',
+              importPath: './src/Badge.stories.tsx',
+              type: 'story',
+              tags: ['autodocs'],
+            },
+          },
+        }),
+      );
+      await mkdir(join(tempPath, 'assets'));
+      await writeFile(
+        join(tempPath, 'assets', 'Badge.stories-d4.js'),
+        [
+          'const a=()=>null;',
+          'a.__docgenInfo={description:"A badge shows a count.",displayName:"Badge",',
+          'props:{size:{required:false,tsType:{name:"string"},description:"Size of the badge."}}};',
+          'const m={title:"Components/Badge",component:a};',
+          'const r={args:{size:"small"}};',
+          'r.parameters={...r.parameters,docs:{...r.parameters?.docs,source:{originalSource:`{\\n  args: {\\n    size: "small"\\n  }\\n}`}}};',
+          'export{m as default,r as Primary};',
+        ].join(''),
+      );
+
+      const result = await generateLlmsDocs({
+        distPath: tempPath,
+        extractMode: 'static',
+        summaryBaseUrl: 'https://storybook.example.com',
+      });
+
+      expect(result.itemsProcessed).toBe(1);
+      expect(result.files).toContain(join(tempPath, 'llms', 'components-badge.txt'));
+      expect(await readFile(join(tempPath, 'llms.txt'), 'utf-8')).toContain(
+        '- [Components/Badge](https://storybook.example.com/llms/components-badge.txt)',
+      );
+      const docs = await readFile(join(tempPath, 'llms', 'components-badge.txt'), 'utf-8');
+      expect(docs).toContain('# Components/Badge');
+      expect(docs).toContain('Size of the badge.');
+      expect(docs).toContain('size: "small"');
+      expect(existsSync(join(tempPath, 'llms', 'components-badge.html'))).toBe(true);
+    });
+  });
+
+  describe('renderLlmsDocs', () => {
+    it('should write into outDir and docsDir instead of the Storybook dist folder', async () => {
+      const distPath = join(tempPath, 'storybook-static');
+      const outDir = join(tempPath, 'llms-static');
+
+      await renderLlmsDocs({ ...argsWithRefs, distPath, outDir, docsDir: 'ai-docs' }, storybookStoreItems);
+
+      expect(existsSync(distPath)).toBe(false);
+      expect(existsSync(join(outDir, 'ai-docs', 'components-accordion.txt'))).toBe(true);
+      expect(existsSync(join(outDir, 'ai-docs', '.storybook-llms-extractor'))).toBe(true);
+      expect(await readFile(join(outDir, 'llms.txt'), 'utf-8')).toContain(
+        'https://react.fluentui.dev/ai-docs/components-accordion.txt',
+      );
+      expect(await readFile(join(outDir, 'ai-docs', 'sitemap.xml'), 'utf-8')).toContain(
+        '<loc>https://react.fluentui.dev/ai-docs/index.html</loc>',
+      );
+    });
+
+    it('should write the docs files in every docs format and link to written files', async () => {
+      const distPath = join(tempPath, 'storybook-static');
+
+      await renderLlmsDocs({ ...argsWithRefs, distPath, docsFormats: ['md', 'html.md'] }, storybookStoreItems);
+
+      const llmsDir = join(distPath, 'llms');
+      expect(existsSync(join(llmsDir, 'components-accordion.md'))).toBe(true);
+      expect(existsSync(join(llmsDir, 'components-accordion.txt'))).toBe(false);
+      expect(await readFile(join(llmsDir, 'components-accordion.html.md'), 'utf-8')).toBe(
+        await readFile(join(llmsDir, 'components-accordion.md'), 'utf-8'),
+      );
+      expect(await readFile(join(distPath, 'llms.txt'), 'utf-8')).toContain(
+        'https://react.fluentui.dev/llms/components-accordion.md',
+      );
+      const sitemap = await readFile(join(llmsDir, 'sitemap.xml'), 'utf-8');
+      expect(sitemap).toContain('<loc>https://react.fluentui.dev/llms/components-accordion.html.md</loc>');
+      expect(sitemap).not.toContain('components-accordion.txt');
+    });
+
+    it('should filter the store items like the extraction', async () => {
+      const distPath = join(tempPath, 'storybook-static');
+
+      const result = await renderLlmsDocs(
+        { ...argsWithRefs, distPath, include: ['Concepts/**'], exclude: ['*-quick-start'] },
+        storybookStoreItems,
+      );
+
+      expect(result.itemsProcessed).toBe(1);
+      expect(existsSync(join(distPath, 'llms', 'concepts-introduction.txt'))).toBe(true);
+      expect(existsSync(join(distPath, 'llms', 'components-accordion.txt'))).toBe(false);
+      expect(await readFile(join(distPath, 'llms.txt'), 'utf-8')).not.toContain('Quick Start');
+    });
+
+    it('should not write anything in dry run', async () => {
+      const distPath = join(tempPath, 'storybook-static');
+
+      const result = await renderLlmsDocs({ ...argsWithRefs, distPath, dryRun: true, diff: true }, storybookStoreItems);
+
+      expect(existsSync(distPath)).toBe(false);
+      expect(result.files).toContain(join(distPath, 'llms', 'components-accordion.txt'));
+      expect(result.changes?.files.every(({ status }) => status === 'added')).toBe(true);
+      expect(result.changes?.items.added).toHaveLength(storybookStoreItems.length);
+    });
+
+    it('should clean up docs folders it created', async () => {
+      await renderLlmsDocs({ ...argsWithRefs, distPath: tempPath }, storybookStoreItems);
+      await writeFile(join(tempPath, 'llms', 'notes.md'), '# Notes');
+
+      await renderLlmsDocs({ ...argsWithRefs, distPath: tempPath }, storybookStoreItems);
+
+      expect(existsSync(join(tempPath, 'llms', 'notes.md'))).toBe(false);
+    });
+
+    it('should refuse to clean up a docs folder it did not create', async () => {
+      await mkdir(join(tempPath, 'assets', 'images'), { recursive: true });
+      await writeFile(join(tempPath, 'assets', 'index.js'), '');
+
+      await expect(
+        renderLlmsDocs({ ...argsWithRefs, distPath: tempPath, docsDir: 'assets' }, storybookStoreItems),
+      ).rejects.toThrow(/Refusing to clean up .*assets/);
+      expect(existsSync(join(tempPath, 'assets', 'index.js'))).toBe(true);
+    });
+
+    it('should refuse to clean up a folder of docs files it did not create unless forced', async () => {
+      await mkdir(join(tempPath, 'docs'));
+      await writeFile(join(tempPath, 'docs', 'README.md'), '# Project docs');
+      await writeFile(join(tempPath, 'docs', 'notes.txt'), 'Notes');
+
+      await expect(
+        renderLlmsDocs({ ...argsWithRefs, distPath: tempPath, docsDir: 'docs' }, storybookStoreItems),
+      ).rejects.toThrow(/Refusing to clean up .*docs/);
+      expect(existsSync(join(tempPath, 'docs', 'README.md'))).toBe(true);
+
+      await renderLlmsDocs({ ...argsWithRefs, distPath: tempPath, docsDir: 'docs', force: true }, storybookStoreItems);
+
+      expect(existsSync(join(tempPath, 'docs', 'README.md'))).toBe(false);
+      expect(existsSync(join(tempPath, 'docs', '.storybook-llms-extractor'))).toBe(true);
+    });
+  });
+});
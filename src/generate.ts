@@ -0,0 +1,98 @@
+import { join } from 'node:path';
+
+import { resolveConfig } from './config';
+import { StrictModeError, collectContentDiagnostics, collectTokenBudgetDiagnostics } from './diagnostics';
+import { diffOutputFiles } from './diff';
+import { filterStoreItems } from './filter';
+import { clearPackageNames } from './imports';
+import { getRenderers, renderOutputFiles, writeFullDocsFiles, writeSharedFiles } from './renderers';
+import type { Args, Diagnostic, GenerateResult, OutputFile, StorybookStoreItem } from './types';
+import { extractStorybookData } from './utils';
+
+/**
+ * Generates all LLMs docs for a Storybook build: `llms.txt`, `llms-full.txt`, per component/page files,
+ * HTML summary, sitemap and manifest.
+ *
+ * In `strict` mode a `StrictModeError` is thrown before writing any file if a problem was found.
+ *
+ * @example
+ * ```ts
+ * import { generateLlmsDocs } from '@acring/storybook-llms-extractor';
+ *
+ * const result = await generateLlmsDocs({ distPath: 'storybook-static', summaryBaseUrl: 'https://storybook.example.com' });
+ * console.log(`${result.files.length} files written for ${result.itemsProcessed} items`);
+ * ```
+ */
+export async function generateLlmsDocs(config: Args): Promise<GenerateResult> {
+  const args = resolveConfig(config);
+  const warnings: Diagnostic[] = [];
+
+  const data = await extractStorybookData(args, warnings);
+
+  return renderLlmsDocs(args, data, warnings);
+}
+
+/**
+ * Writes all LLMs docs for store items extracted beforehand, e.g. by the `extract` command, without a browser.
+ * The items are filtered by `include`, `exclude` and `tags` like during the extraction.
+ * `warnings` holds the problems found during extraction, content problems are appended to it.
+ *
+ * In `strict` mode a `StrictModeError` is thrown before writing any file if a problem was found.
+ * With `diff`, the docs are compared with the existing ones before being written, see `GenerateResult.changes`.
+ * With `dryRun`, nothing is written.
+ */
+export async function renderLlmsDocs(
+  config: Args,
+  storeItems: StorybookStoreItem[],
+  warnings: Diagnostic[] = [],
+): Promise<GenerateResult> {
+  const args = resolveConfig(config);
+  const data = filterStoreItems(storeItems, args);
+  clearPackageNames();
+
+  collectContentDiagnostics(data, warnings);
+  collectTokenBudgetDiagnostics(args, data, warnings);
+
+  if (args.strict && warnings.length > 0) {
+    throw new StrictModeError(warnings);
+  }
+
+  const outputFiles = args.diff || args.dryRun ? generateOutputFiles(args, data) : [];
+  const changes = args.diff ? await diffOutputFiles(args, data, outputFiles) : undefined;
+
+  const result: GenerateResult = args.dryRun
+    ? { files: outputFiles.map(({ file }) => join(args.outDir, file)), itemsProcessed: data.length, warnings }
+    : await writeOutputFiles(args, data, warnings);
+
+  return changes ? { ...result, changes } : result;
+}
+
+/**
+ * Writes all docs files, see `renderLlmsDocs`.
+ */
+async function writeOutputFiles(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  warnings: Diagnostic[],
+): Promise<GenerateResult> {
+  const renderers = getRenderers(args);
+
+  // Write per component/page files
+  const docsFiles = await writeFullDocsFiles(args, data, renderers);
+
+  // Write summaries, HTML summary, sitemap and manifest files (after the docs directory is cleaned up)
+  const sharedFiles = await writeSharedFiles(args, data, renderers);
+
+  return {
+    files: [...docsFiles, ...sharedFiles],
+    itemsProcessed: data.length,
+    warnings,
+  };
+}
+
+/**
+ * Computes all docs files in memory, see `renderOutputFiles`. Paths are relative to `outDir`.
+ */
+export function generateOutputFiles(config: Args, data: StorybookStoreItem[]): OutputFile[] {
+  return renderOutputFiles(resolveConfig(config), data);
+}
@@ -0,0 +1,116 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { clearPackageNames, generateImportStatement, getImportNames, getImportSource } from './imports';
+import type { StorybookStoreItem } from './types';
+import { generateBudgetedFileContent, generateFullFileHtmlContentFromStory } from './utils';
+
+const createItem = (title: string, fileName: string): StorybookStoreItem => ({
+  meta: {
+    id: title.toLowerCase().replace(/\//g, '-'),
+    title,
+    parameters: { fileName, docs: {} },
+    component: { displayName: title.split('/').pop() ?? '' },
+  },
+  stories: {},
+});
+
+describe('imports', () => {
+  describe('getImportSource', () => {
+    it('should use the first package matching a title prefix or a glob pattern', () => {
+      const importPackages = {
+        'Components/Charts': '@acme/charts',
+        './src/icons/**': '@acme/icons',
+        Components: '@acme/ui',
+      };
+
+      expect(getImportSource({ importPackages }, createItem('Components/Charts/Line', './src/charts/Line.tsx'))).toBe(
+        '@acme/charts',
+      );
+      expect(getImportSource({ importPackages }, createItem('Components/Icon', './src/icons/Icon.stories.tsx'))).toBe(
+        '@acme/icons',
+      );
+      expect(getImportSource({ importPackages }, createItem('Components/ChartsLegend', 'Legend.tsx'))).toBe('@acme/ui');
+      expect(getImportSource({ importPackages }, createItem('Patterns/Form', 'Form.tsx'))).toBeUndefined();
+    });
+
+    it('should fall back to the closest public package.json', async () => {
+      const tempPath = await mkdtemp(join(tmpdir(), 'imports-spec-'));
+      try {
+        await mkdir(join(tempPath, 'packages', 'ui', 'src'), { recursive: true });
+        await writeFile(join(tempPath, 'package.json'), JSON.stringify({ name: 'monorepo', private: true }));
+        await writeFile(join(tempPath, 'packages', 'ui', 'package.json'), JSON.stringify({ name: '@acme/ui' }));
+        const item = createItem('Components/Button', join(tempPath, 'packages', 'ui', 'src', 'Button.stories.tsx'));
+
+        expect(getImportSource({ importPackageJson: true }, item)).toBe('@acme/ui');
+        expect(getImportSource({ importPackageJson: false }, item)).toBeUndefined();
+      } finally {
+        await rm(tempPath, { recursive: true, force: true });
+      }
+    });
+
+    it('should skip unreadable package.json files and read edited ones in the next run', async () => {
+      const tempPath = await mkdtemp(join(tmpdir(), 'imports-spec-'));
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      try {
+        await mkdir(join(tempPath, 'src'), { recursive: true });
+        await writeFile(join(tempPath, 'package.json'), '{ "name": ');
+        const item = createItem('Components/Button', join(tempPath, 'src', 'Button.stories.tsx'));
+
+        expect(getImportSource({ importPackageJson: true }, item)).toBeUndefined();
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining(`Unable to read ${join(tempPath, 'package.json')}`));
+
+        await writeFile(join(tempPath, 'package.json'), JSON.stringify({ name: '@acme/ui' }));
+        expect(getImportSource({ importPackageJson: true }, item)).toBeUndefined();
+        clearPackageNames();
+        expect(getImportSource({ importPackageJson: true }, item)).toBe('@acme/ui');
+      } finally {
+        warn.mockRestore();
+        await rm(tempPath, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('generateImportStatement', () => {
+    it('should import the component and its subcomponents', () => {
+      const accordion = storybookStoreItems.find(item => item.meta.id === 'components-accordion')!;
+
+      expect(getImportNames(accordion)).toEqual(['Accordion', 'AccordionItem', 'AccordionHeader', 'AccordionPanel']);
+      expect(generateImportStatement(accordion, '@fluentui/react-components')).toBe(
+        [
+          'import {',
+          '  Accordion,',
+          '  AccordionItem,',
+          '  AccordionHeader,',
+          '  AccordionPanel,',
+          "} from '@fluentui/react-components';",
+        ].join('\n'),
+      );
+      expect(generateImportStatement(createItem('Components/Button', ''), '@acme/ui')).toBe(
+        "import { Button } from '@acme/ui';",
+      );
+      expect(generateImportStatement(storybookStoreItems[0]!, '@acme/ui')).toBeUndefined();
+    });
+
+    it('should add the import section to component docs files', () => {
+      const accordion = storybookStoreItems.find(item => item.meta.id === 'components-accordion')!;
+
+      const { content } = generateBudgetedFileContent({ importPackages: { Components: '@acme/ui' } }, accordion);
+
+      expect(content.join('\n')).toContain(['## Import', '', '```tsx', 'import {', '  Accordion,'].join('\n'));
+      expect(content.indexOf('## Import')).toBeLessThan(content.indexOf('## Props'));
+      expect(generateBudgetedFileContent({}, accordion).content).not.toContain('## Import');
+    });
+
+    it('should add the import section to HTML docs files', () => {
+      const accordion = storybookStoreItems.find(item => item.meta.id === 'components-accordion')!;
+
+      expect(generateFullFileHtmlContentFromStory({ importPackages: { Components: '@acme/ui' } }, accordion)).toContain(
+        '<h2>Import</h2>\n<pre><code class="language-tsx">import {\n  Accordion,',
+      );
+    });
+  });
+});
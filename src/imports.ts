@@ -0,0 +1,129 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+
+import { defaultConfig } from './config';
+import { globToRegExp } from './filter';
+import type { Args, StorybookStoreItem } from './types';
+
+/**
+ * Maximum length of a single line import statement, longer ones list one name per line.
+ */
+const MAX_IMPORT_LINE_LENGTH = 80;
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Package names found by `findPackageName`, by directory. Cleared at the start of every run, see
+ * `clearPackageNames`.
+ */
+const packageNames = new Map<string, string | undefined>();
+
+/**
+ * Returns the package a component is imported from: the first `importPackages` entry whose pattern is a prefix of its
+ * title or a glob pattern matching its title, id or `fileName`. Otherwise, with `importPackageJson`, the name of the
+ * closest `package.json` of its `fileName`.
+ */
+export function getImportSource(
+  {
+    importPackages = defaultConfig.importPackages,
+    importPackageJson = defaultConfig.importPackageJson,
+  }: Pick<Args, 'importPackages' | 'importPackageJson'>,
+  item: StorybookStoreItem,
+): string | undefined {
+  const { title, id, parameters } = item.meta;
+  const fileName = normalizeFileName(parameters?.fileName ?? '');
+
+  for (const [pattern, source] of Object.entries(importPackages)) {
+    const regExp = globToRegExp(normalizeFileName(pattern));
+    if (isTitlePrefix(pattern, title) || regExp.test(title) || regExp.test(id) || (fileName && regExp.test(fileName))) {
+      return source;
+    }
+  }
+
+  return importPackageJson && fileName ? findPackageName(dirname(resolve(fileName))) : undefined;
+}
+
+/**
+ * Returns the names imported for a component: its display name followed by the names of its subcomponents.
+ */
+export function getImportNames(item: StorybookStoreItem) {
+  const { component, subcomponents = {} } = item.meta;
+  const name = component?.displayName || component?.__docgenInfo?.displayName;
+  if (!name || !IDENTIFIER_PATTERN.test(name)) {
+    return [];
+  }
+
+  return [...new Set([name, ...Object.keys(subcomponents).filter(key => IDENTIFIER_PATTERN.test(key))])];
+}
+
+/**
+ * Generates the import statement of a component and its subcomponents, e.g.
+ * `import { Accordion, AccordionItem } from '@acme/ui';`. Returns `undefined` for items without a component.
+ */
+export function generateImportStatement(item: StorybookStoreItem, source: string) {
+  const names = getImportNames(item);
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const statement = `import { ${names.join(', ')} } from '${source}';`;
+  if (statement.length <= MAX_IMPORT_LINE_LENGTH) {
+    return statement;
+  }
+
+  return ['import {', ...names.map(name => `  ${name},`), `} from '${source}';`].join('\n');
+}
+
+/**
+ * Clears the package names found in a previous run, so that edited `package.json` files are read again.
+ */
+export function clearPackageNames() {
+  packageNames.clear();
+}
+
+/**
+ * Checks if a pattern is a prefix of a title on a segment boundary, e.g. `Components` for `Components/Button`.
+ */
+function isTitlePrefix(pattern: string, title: string) {
+  const prefix = pattern.replace(/\/+$/, '');
+  return title === prefix || title.startsWith(`${prefix}/`);
+}
+
+function normalizeFileName(fileName: string) {
+  return fileName.replace(/^\.\//, '');
+}
+
+/**
+ * Returns the name of the closest public `package.json` from `dir` upwards, relative to the current working directory.
+ * Private packages, e.g. monorepo roots, are skipped. An unreadable `package.json` is reported and stops the lookup,
+ * the component then has no import section.
+ */
+function findPackageName(dir: string) {
+  if (packageNames.has(dir)) {
+    return packageNames.get(dir);
+  }
+
+  let name: string | undefined;
+  for (let current = dir; current !== dirname(current); current = dirname(current)) {
+    const packageJsonPath = join(current, 'package.json');
+    if (!existsSync(packageJsonPath)) {
+      continue;
+    }
+
+    let packageJson: { name?: string; private?: boolean };
+    try {
+      packageJson = JSON.parse(readFileSync(packageJsonPath, 'utf-8'));
+    } catch (reason) {
+      const error = reason instanceof Error ? reason.message : String(reason);
+      console.warn(`⚠️ Unable to read ${packageJsonPath}, its components have no import section: ${error}`);
+      break;
+    }
+    if (packageJson.name && !packageJson.private) {
+      name = packageJson.name;
+      break;
+    }
+  }
+
+  packageNames.set(dir, name);
+  return name;
+}
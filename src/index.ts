@@ -1,3 +1,59 @@
-export type { Args as Config } from './types';
+export type {
+  Args as Config,
+  ChangeReport,
+  Diagnostic,
+  DiagnosticCode,
+  DocsCustomSection,
+  DocsSectionName,
+  DocsTemplate,
+  DocsTemplateFunction,
+  ExtractMode,
+  GenerateResult,
+  Manifest,
+  ManifestItem,
+  ManifestProp,
+  ManifestStory,
+  ManifestSubcomponent,
+  OutputFile,
+  OutputFileChange,
+  OutputFileProblem,
+  RendererContext,
+  RendererPlugin,
+  StorybookRef,
+  StorybookStoreItem,
+  Tokenizer,
+  ValidateResult,
+} from './types';
 
-export {};
+export { defaultConfig, getDocsPath, resolveConfig } from './config';
+export { StrictModeError, collectContentDiagnostics, collectTokenBudgetDiagnostics } from './diagnostics';
+export { createUnifiedDiff, diffOutputFiles, formatChangeReport } from './diff';
+export { filterStoreItems } from './filter';
+export { generateLlmsDocs, generateOutputFiles, renderLlmsDocs } from './generate';
+export { generateImportStatement, getImportSource } from './imports';
+export { generateManifest, manifestSchema } from './manifest';
+export {
+  type McpTool,
+  createMcpTools,
+  handleMcpMessage,
+  loadStoreItemsFromManifest,
+  serveMcp,
+  storeItemsFromManifest,
+} from './mcp';
+export {
+  builtinRenderers,
+  getRenderers,
+  htmlRenderer,
+  manifestRenderer,
+  renderOutputFiles,
+  sitemapRenderer,
+  summaryRenderer,
+  textRenderer,
+  writeAdditionalFiles,
+  writeFullDocsFiles,
+  writeSharedFiles,
+  writeSummaryFile,
+} from './renderers';
+export { countTokens } from './tokens';
+export { extractStorybookData } from './utils';
+export { validateLlmsDocs } from './validate';
@@ -0,0 +1,62 @@
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { generateManifest, manifestSchema } from './manifest';
+
+describe('manifest', () => {
+  describe('generateManifest', () => {
+    const manifest = generateManifest(argsWithRefs, storybookStoreItems);
+
+    it('should list all items with their kind and output files', () => {
+      expect(manifest.$schema).toBe('./manifest.schema.json');
+      expect(manifest.baseUrl).toBe('https://react.fluentui.dev');
+      expect(manifest.items.map(({ id, kind, files }) => ({ id, kind, files }))).toEqual([
+        {
+          id: 'concepts-introduction',
+          kind: 'page',
+          files: ['llms/concepts-introduction.txt', 'llms/concepts-introduction.html'],
+        },
+        {
+          id: 'concepts-developer-quick-start',
+          kind: 'page',
+          files: ['llms/concepts-developer-quick-start.txt', 'llms/concepts-developer-quick-start.html'],
+        },
+        {
+          id: 'components-accordion',
+          kind: 'component',
+          files: ['llms/components-accordion.txt', 'llms/components-accordion.html'],
+        },
+      ]);
+    });
+
+    it('should normalize component props, subcomponents and stories', () => {
+      const accordion = manifest.items[2]!;
+
+      expect(accordion.description).toMatch(/^An accordion allows users/);
+      expect(accordion.props.find(prop => prop.name === 'multiple')).toEqual({
+        name: 'multiple',
+        type: 'boolean',
+        required: false,
+        defaultValue: '',
+        description: 'Indicates if Accordion support multiple Panels opened at the same time.',
+      });
+      expect(accordion.subcomponents.map(({ name }) => name)).toEqual([
+        'AccordionItem',
+        'AccordionHeader',
+        'AccordionPanel',
+      ]);
+      expect(accordion.stories).toHaveLength(12);
+      expect(accordion.stories[0]?.source).toMatch(/^import \* as React from "react";/);
+      expect(accordion.tokens).toBeGreaterThan(0);
+    });
+
+    it('should only contain properties declared in the schema', () => {
+      const itemProperties = Object.keys(manifestSchema.$defs.item.properties);
+
+      expect(Object.keys(manifest).sort()).toEqual(Object.keys(manifestSchema.properties).sort());
+      for (const item of manifest.items) {
+        expect(Object.keys(item).sort()).toEqual([...itemProperties].sort());
+      }
+    });
+  });
+});
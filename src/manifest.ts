@@ -0,0 +1,141 @@
+import { defaultConfig } from './config';
+import type {
+  Args,
+  Manifest,
+  ManifestItem,
+  ManifestProp,
+  StorybookArgTypes,
+  StorybookComponent,
+  StorybookStoreItem,
+} from './types';
+import { stringifyPropType } from './prop-types';
+import { extractComponentProps, generateBudgetedFileContent, getItemDocsFiles, isMDXItem } from './utils';
+
+/**
+ * JSON schema of `manifest.json`, written next to it as `manifest.schema.json`.
+ */
+export const manifestSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: 'manifest.schema.json',
+  title: 'Storybook LLMs manifest',
+  type: 'object',
+  required: ['version', 'title', 'description', 'baseUrl', 'items'],
+  properties: {
+    $schema: { type: 'string' },
+    version: { const: 1 },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    baseUrl: { type: 'string' },
+    items: { type: 'array', items: { $ref: '#/$defs/item' } },
+  },
+  $defs: {
+    item: {
+      type: 'object',
+      required: ['id', 'title', 'kind', 'description', 'props', 'subcomponents', 'stories', 'files', 'tokens'],
+      properties: {
+        id: { type: 'string' },
+        title: { type: 'string' },
+        kind: { enum: ['component', 'page'] },
+        description: { type: 'string' },
+        props: { type: 'array', items: { $ref: '#/$defs/prop' } },
+        subcomponents: { type: 'array', items: { $ref: '#/$defs/subcomponent' } },
+        stories: { type: 'array', items: { $ref: '#/$defs/story' } },
+        files: { type: 'array', items: { type: 'string' } },
+        tokens: { type: 'integer', minimum: 0 },
+      },
+      additionalProperties: false,
+    },
+    prop: {
+      type: 'object',
+      required: ['name', 'type', 'required', 'defaultValue', 'description'],
+      properties: {
+        name: { type: 'string' },
+        type: { type: 'string' },
+        required: { type: 'boolean' },
+        defaultValue: { type: 'string' },
+        description: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+    subcomponent: {
+      type: 'object',
+      required: ['name', 'description', 'props'],
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        props: { type: 'array', items: { $ref: '#/$defs/prop' } },
+      },
+      additionalProperties: false,
+    },
+    story: {
+      type: 'object',
+      required: ['id', 'name', 'description', 'source'],
+      properties: {
+        id: { type: 'string' },
+        name: { type: 'string' },
+        description: { type: 'string' },
+        source: { type: 'string' },
+      },
+      additionalProperties: false,
+    },
+  },
+  additionalProperties: false,
+} as const;
+
+/**
+ * Generates the manifest of all store items, see `Manifest`.
+ */
+export function generateManifest(args: Required<Args>, data: StorybookStoreItem[]): Manifest {
+  return {
+    $schema: './manifest.schema.json',
+    version: 1,
+    title: args.summaryTitle,
+    description: args.summaryDescription,
+    baseUrl: args.summaryBaseUrl,
+    items: data.map(item => generateManifestItem(args, item)),
+  };
+}
+
+/**
+ * Generates the manifest entry of a single store item.
+ */
+function generateManifestItem(args: Required<Args>, item: StorybookStoreItem): ManifestItem {
+  const isPage = isMDXItem(item);
+  const { docsDir = defaultConfig.docsDir } = args;
+
+  return {
+    id: item.meta.id,
+    title: item.meta.title,
+    kind: isPage ? 'page' : 'component',
+    description: item.meta.parameters?.docs?.description?.component ?? '',
+    props: generateManifestProps(item.meta.component, item.meta.argTypes),
+    subcomponents: Object.entries(item.meta.subcomponents ?? {})
+      .filter(([, subcomponent]) => subcomponent?.__docgenInfo)
+      .map(([name, subcomponent]) => ({
+        name,
+        description: subcomponent.__docgenInfo?.description ?? '',
+        props: generateManifestProps(subcomponent),
+      })),
+    stories: Object.values(item.stories).map(story => ({
+      id: story.id,
+      name: story.name,
+      description: story.parameters?.docs?.description?.story ?? '',
+      source: (story.parameters?.fullSource ?? story.parameters?.docs?.source?.originalSource ?? '').trim(),
+    })),
+    files: getItemDocsFiles(args, item.meta.id).map(file => `${docsDir}/${file}`),
+    tokens: generateBudgetedFileContent(args, item).tokens,
+  };
+}
+
+/**
+ * Normalizes the docgen props of a component, enriched by its `argTypes`, with types printed as strings.
+ */
+export function generateManifestProps(component?: StorybookComponent, argTypes?: StorybookArgTypes): ManifestProp[] {
+  return extractComponentProps(component, argTypes).map(prop => ({
+    name: prop.name,
+    type: stringifyPropType(prop.type),
+    required: prop.required ?? false,
+    defaultValue: typeof prop.defaultValue === 'string' ? prop.defaultValue : prop.defaultValue?.value ?? '',
+    description: prop.description ?? '',
+  }));
+}
@@ -0,0 +1,90 @@
+import { renderMarkdown } from './markdown';
+import { convertHtmlToMarkdown } from './utils';
+
+describe('markdown', () => {
+  describe('renderMarkdown', () => {
+    it('should escape raw HTML and drop unsafe URLs', () => {
+      const markdown = [
+        '<script>alert(1)</script>',
+        '',
+        '<img src=x onerror="alert(1)"> & &copy;',
+        '',
+        '[click](javascript:alert(1)) [entity](java&#115;cript:alert(1)) ![img](data:text/html,x)',
+      ].join('\n');
+
+      expect(renderMarkdown(markdown)).toBe(
+        [
+          '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p>',
+          '<p>&lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; ©</p>',
+          '<p>[click](javascript:alert(1)) [entity](javascript:alert(1)) ![img](data:text/html,x)</p>',
+        ].join('\n'),
+      );
+    });
+
+    it('should render task lists with disabled checkboxes', () => {
+      expect(renderMarkdown(['- one', '  - [x] done', '- [ ] todo', '- [link](https://example.com)'].join('\n'))).toBe(
+        [
+          '<ul>',
+          '<li>one',
+          '<ul>',
+          '<li><input type="checkbox" disabled="" checked="" /> done</li>',
+          '</ul>',
+          '</li>',
+          '<li><input type="checkbox" disabled="" /> todo</li>',
+          '<li><a href="https://example.com">link</a></li>',
+          '</ul>',
+        ].join('\n'),
+      );
+    });
+
+    it('should round-trip the markdown of convertHtmlToMarkdown', async () => {
+      const html = [
+        '<h2>Install</h2>',
+        '<p>Some <strong>bold <em>italic</em></strong> and <a href="https://example.com">a link</a>.</p>',
+        '<ul><li>One</li><li>Two<ul><li>Nested</li></ul></li></ul>',
+        '<ol><li>First</li><li>Second</li></ol>',
+        '<ul><li><input type="checkbox" checked=""> Done</li><li><input type="checkbox"> Todo</li></ul>',
+        '<table><thead><tr><th>Prop</th><th>Type</th></tr></thead><tbody><tr><td>size</td><td>number</td></tr></tbody></table>',
+        '<pre><code class="language-tsx">const a = 1;</code></pre>',
+      ].join('');
+
+      expect(renderMarkdown(await convertHtmlToMarkdown(html))).toBe(
+        [
+          '<h2>Install</h2>',
+          '<p>Some <strong>bold <em>italic</em></strong> and <a href="https://example.com">a link</a>.</p>',
+          '<ul>',
+          '<li>One</li>',
+          '<li>Two',
+          '<ul>',
+          '<li>Nested</li>',
+          '</ul>',
+          '</li>',
+          '</ul>',
+          '<ol>',
+          '<li>First</li>',
+          '<li>Second</li>',
+          '</ol>',
+          '<ul>',
+          '<li><input type="checkbox" disabled="" checked="" /> Done</li>',
+          '<li><input type="checkbox" disabled="" /> Todo</li>',
+          '</ul>',
+          '<table>',
+          '<thead>',
+          '<tr>',
+          '<th>Prop</th>',
+          '<th>Type</th>',
+          '</tr>',
+          '</thead>',
+          '<tbody>',
+          '<tr>',
+          '<td>size</td>',
+          '<td>number</td>',
+          '</tr>',
+          '</tbody>',
+          '</table>',
+          '<pre><code class="language-tsx">const a = 1;\n</code></pre>',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Markdown to HTML renderer for the `.html` docs files, CommonMark plus GFM tables, strikethrough, autolinks and task
+ * lists.
+ *
+ * The output is sanitized: raw HTML in the Markdown is rendered as text, links and images only keep `http(s)`,
+ * `mailto`, `tel` and relative URLs.
+ */
+
+import MarkdownIt from 'markdown-it';
+
+import { sanitizeUrl } from './escape';
+
+const markdownIt = new MarkdownIt({ html: false, linkify: true, xhtmlOut: true });
+markdownIt.validateLink = url => sanitizeUrl(url) !== undefined;
+
+const TASK_LIST_ITEM = /^\[([ xX])\]\s+/;
+
+// GFM task lists: `- [x] done` list items start with a disabled checkbox
+markdownIt.core.ruler.after('inline', 'task_lists', state => {
+  state.tokens.forEach((token, index) => {
+    const text = token.children?.[0];
+    const match = text?.type === 'text' && TASK_LIST_ITEM.exec(text.content);
+    if (token.type !== 'inline' || state.tokens[index - 2]?.type !== 'list_item_open' || !text || !match) {
+      return;
+    }
+
+    const checkbox = new state.Token('html_inline', '', 0);
+    checkbox.content = `<input type="checkbox" disabled=""${match[1] === ' ' ? '' : ' checked=""'} /> `;
+    text.content = text.content.slice(match[0].length);
+    token.children?.unshift(checkbox);
+  });
+});
+
+/**
+ * Renders Markdown to sanitized HTML.
+ */
+export function renderMarkdown(markdown: string): string {
+  return markdownIt.render(markdown).trimEnd();
+}
@@ -0,0 +1,155 @@
+import { PassThrough } from 'node:stream';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { generateManifest } from './manifest';
+import { createMcpTools, handleMcpMessage, serveMcp, storeItemsFromManifest } from './mcp';
+import { generateFullFileContentFromStory } from './utils';
+
+describe('mcp', () => {
+  const tools = createMcpTools(argsWithRefs, storybookStoreItems);
+  const callTool = (name: string, input: Record<string, unknown> = {}) =>
+    handleMcpMessage(tools, { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name, arguments: input } })
+      ?.result as { content: { text: string }[]; isError?: boolean };
+
+  describe('handleMcpMessage', () => {
+    it('should answer initialize with the tools capability', () => {
+      const response = handleMcpMessage(tools, {
+        jsonrpc: '2.0',
+        id: 0,
+        method: 'initialize',
+        params: { protocolVersion: '2025-03-26' },
+      });
+
+      expect(response?.result).toMatchObject({
+        protocolVersion: '2025-03-26',
+        capabilities: { tools: {} },
+        serverInfo: { name: 'storybook-llms-extractor' },
+      });
+    });
+
+    it('should list all tools', () => {
+      const response = handleMcpMessage(tools, { jsonrpc: '2.0', id: 1, method: 'tools/list' });
+
+      expect((response?.result as { tools: { name: string }[] }).tools.map(({ name }) => name)).toEqual([
+        'list_components',
+        'get_component_docs',
+        'get_component_props',
+        'search_docs',
+        'get_story_source',
+      ]);
+    });
+
+    it('should not answer notifications', () => {
+      expect(handleMcpMessage(tools, { jsonrpc: '2.0', method: 'notifications/initialized' })).toBeUndefined();
+    });
+
+    it('should report unknown methods and tools', () => {
+      expect(handleMcpMessage(tools, { jsonrpc: '2.0', id: 1, method: 'resources/list' })?.error?.code).toBe(-32601);
+      expect(
+        handleMcpMessage(tools, { jsonrpc: '2.0', id: 1, method: 'tools/call', params: { name: 'foo' } })?.error?.code,
+      ).toBe(-32602);
+    });
+  });
+
+  describe('tools', () => {
+    it('should list components and pages', () => {
+      const { text } = callTool('list_components').content[0]!;
+
+      expect(text.split('\n')).toEqual([
+        '- concepts-introduction (page): Concepts/Introduction',
+        '- concepts-developer-quick-start (page): Concepts/Developer/Quick Start',
+        expect.stringMatching(/^- components-accordion \(component\): Components\/Accordion - An accordion allows/),
+      ]);
+    });
+
+    it('should return the full docs of a component', () => {
+      expect(callTool('get_component_docs', { id: 'components-accordion' }).content[0]?.text).toBe(
+        generateFullFileContentFromStory(storybookStoreItems[2]!).join('\n'),
+      );
+    });
+
+    it('should follow the docs template, the import packages and the token budget', () => {
+      const accordion = storybookStoreItems[2]!;
+      const docs = (args: Parameters<typeof createMcpTools>[0]) =>
+        handleMcpMessage(createMcpTools(args, [accordion]), {
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'tools/call',
+          params: { name: 'get_component_docs', arguments: { id: 'components-accordion' } },
+        })?.result as { content: { text: string }[] };
+
+      expect(docs({ docsTemplate: { sections: ['title'] } }).content[0]?.text).toBe('# Components/Accordion\n');
+      expect(docs({ importPackages: { Components: '@acme/ui' } }).content[0]?.text).toContain("from '@acme/ui';");
+      expect(docs({ tokenBudget: 3000 }).content[0]?.text).toContain(
+        '9 more examples were omitted to fit the token budget',
+      );
+    });
+
+    it('should return an error result for unknown ids', () => {
+      const result = callTool('get_component_docs', { id: 'components-foo' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('No component or page found for "components-foo"');
+    });
+
+    it('should return component and subcomponent props as JSON', () => {
+      const props = JSON.parse(callTool('get_component_props', { id: 'components-accordion' }).content[0]?.text ?? '');
+
+      expect(props.props.map(({ name }: { name: string }) => name)).toContain('multiple');
+      expect(props.subcomponents.map(({ name }: { name: string }) => name)).toEqual([
+        'AccordionItem',
+        'AccordionHeader',
+        'AccordionPanel',
+      ]);
+    });
+
+    it('should rank title matches first', () => {
+      const { text } = callTool('search_docs', { query: 'accordion' }).content[0]!;
+
+      expect(text.startsWith('- components-accordion: Components/Accordion')).toBe(true);
+    });
+
+    it('should return the source of a story', () => {
+      const { text } = callTool('get_story_source', { storyId: 'components-accordion--default' }).content[0]!;
+
+      expect(text).toMatch(/^import \* as React from "react";/);
+    });
+  });
+
+  describe('serveMcp', () => {
+    it('should answer newline-delimited JSON-RPC messages', async () => {
+      const input = new PassThrough();
+      const output = new PassThrough();
+      const server = serveMcp(argsWithRefs, storybookStoreItems, { input, output });
+
+      input.end(
+        [
+          JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+          JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'ping' }),
+          '{not json',
+        ].join('\n'),
+      );
+      await server;
+
+      expect(output.read().toString()).toBe(
+        [
+          JSON.stringify({ jsonrpc: '2.0', id: 1, result: {} }),
+          JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }),
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('storeItemsFromManifest', () => {
+    it('should render the same docs as the original store items', () => {
+      const items = storeItemsFromManifest(generateManifest(argsWithRefs, storybookStoreItems));
+
+      expect(items.map(item => generateFullFileContentFromStory(item))).toEqual(
+        storybookStoreItems.map(item => generateFullFileContentFromStory(item)),
+      );
+    });
+  });
+});
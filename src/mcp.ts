@@ -0,0 +1,344 @@
+import { readFile } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+
+import { getPackageVersion } from './config';
+import { generateManifestProps } from './manifest';
+import type {
+  Manifest,
+  ManifestProp,
+  StorybookComponent,
+  StorybookComponentProp,
+  StorybookStoreItem,
+  StorybookStoreItemStory,
+} from './types';
+import { type DocsContentArgs, generateBudgetedFileContent, isMDXItem } from './utils';
+
+/**
+ * Tool exposed by the MCP server. `call` returns the text content of the result and throws for invalid input.
+ */
+export type McpTool = {
+  name: string;
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, { type: string; description: string }>;
+    required?: string[];
+  };
+  call: (input: Record<string, unknown>) => string;
+};
+
+type JsonRpcId = string | number | null;
+
+type JsonRpcMessage = {
+  jsonrpc: '2.0';
+  id?: JsonRpcId;
+  method?: string;
+  params?: Record<string, unknown>;
+};
+
+type JsonRpcResponse = {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  result?: unknown;
+  error?: { code: number; message: string };
+};
+
+/**
+ * MCP protocol version used when the client does not request one.
+ */
+const DEFAULT_PROTOCOL_VERSION = '2024-11-05';
+
+const SEARCH_RESULTS_LIMIT = 10;
+
+/**
+ * Serves the docs of the store items as a Model Context Protocol server over stdio (newline-delimited JSON-RPC).
+ * Resolves when the input stream is closed. Nothing but JSON-RPC messages may be written to `output`.
+ */
+export async function serveMcp(
+  args: DocsContentArgs,
+  data: StorybookStoreItem[],
+  {
+    input = process.stdin,
+    output = process.stdout,
+  }: { input?: NodeJS.ReadableStream; output?: NodeJS.WritableStream } = {},
+) {
+  const tools = createMcpTools(args, data);
+  const lines = createInterface({ input, crlfDelay: Infinity });
+
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let response: JsonRpcResponse | undefined;
+    try {
+      response = handleMcpMessage(tools, JSON.parse(line));
+    } catch {
+      response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+    }
+
+    if (response) {
+      output.write(`${JSON.stringify(response)}\n`);
+    }
+  }
+}
+
+/**
+ * Handles a single JSON-RPC message. Returns `undefined` for notifications, which must not be answered.
+ */
+export function handleMcpMessage(tools: McpTool[], message: JsonRpcMessage): JsonRpcResponse | undefined {
+  if (message.id === undefined) {
+    return undefined;
+  }
+
+  const { id, method, params = {} } = message;
+  const result = (value: unknown): JsonRpcResponse => ({ jsonrpc: '2.0', id, result: value });
+  const error = (code: number, errorMessage: string): JsonRpcResponse => ({
+    jsonrpc: '2.0',
+    id,
+    error: { code, message: errorMessage },
+  });
+
+  switch (method) {
+    case 'initialize':
+      return result({
+        protocolVersion:
+          typeof params['protocolVersion'] === 'string' ? params['protocolVersion'] : DEFAULT_PROTOCOL_VERSION,
+        capabilities: { tools: {} },
+        serverInfo: { name: 'storybook-llms-extractor', version: getPackageVersion() },
+      });
+    case 'ping':
+      return result({});
+    case 'tools/list':
+      return result({ tools: tools.map(({ name, description, inputSchema }) => ({ name, description, inputSchema })) });
+    case 'tools/call': {
+      const tool = tools.find(({ name }) => name === params['name']);
+      if (!tool) {
+        return error(-32602, `Unknown tool: ${String(params['name'])}`);
+      }
+
+      try {
+        const text = tool.call((params['arguments'] as Record<string, unknown> | undefined) ?? {});
+        return result({ content: [{ type: 'text', text }] });
+      } catch (e) {
+        return result({ content: [{ type: 'text', text: e instanceof Error ? e.message : String(e) }], isError: true });
+      }
+    }
+    default:
+      return error(-32601, `Method not found: ${method}`);
+  }
+}
+
+/**
+ * Creates the MCP tools backed by the store items: `list_components`, `get_component_docs`, `get_component_props`,
+ * `search_docs` and `get_story_source`. The docs are the content of the text docs files, see
+ * `generateBudgetedFileContent`.
+ */
+export function createMcpTools(args: DocsContentArgs, data: StorybookStoreItem[]): McpTool[] {
+  const items = data.filter(item => item?.meta && item.stories);
+  const contents = new Map<string, string>();
+  const getContent = (item: StorybookStoreItem) => {
+    let content = contents.get(item.meta.id);
+    if (content === undefined) {
+      content = generateBudgetedFileContent(args, item).content.join('\n');
+      contents.set(item.meta.id, content);
+    }
+    return content;
+  };
+
+  const findItem = (id: unknown) => {
+    const item = items.find(({ meta }) => meta.id === id || meta.title === id);
+    if (!item) {
+      throw new Error(`No component or page found for "${String(id)}", use list_components to find valid ids`);
+    }
+    return item;
+  };
+
+  return [
+    {
+      name: 'list_components',
+      description: 'Lists all documented components and pages with their id, title and short description.',
+      inputSchema: { type: 'object', properties: {} },
+      call: () =>
+        items
+          .map(item => {
+            const kind = isMDXItem(item) ? 'page' : 'component';
+            const description = item.meta.parameters?.docs?.description?.component?.split('\n')[0];
+            return `- ${item.meta.id} (${kind}): ${item.meta.title}${description ? ` - ${description}` : ''}`;
+          })
+          .join('\n'),
+    },
+    {
+      name: 'get_component_docs',
+      description: 'Returns the full documentation of a component or page: description, props and examples.',
+      inputSchema: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Component or page id, e.g. "components-button"' } },
+        required: ['id'],
+      },
+      call: ({ id }) => getContent(findItem(id)),
+    },
+    {
+      name: 'get_component_props',
+      description: 'Returns the props of a component and its subcomponents as JSON.',
+      inputSchema: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Component id, e.g. "components-button"' } },
+        required: ['id'],
+      },
+      call: ({ id }) => {
+        const item = findItem(id);
+        const subcomponents = Object.entries(item.meta.subcomponents ?? {}).map(([name, subcomponent]) => ({
+          name,
+          props: generateManifestProps(subcomponent),
+        }));
+        const props = generateManifestProps(item.meta.component, item.meta.argTypes);
+        return JSON.stringify({ props, subcomponents }, null, 2);
+      },
+    },
+    {
+      name: 'search_docs',
+      description: 'Searches the documentation of all components and pages, returns the best matching ids.',
+      inputSchema: {
+        type: 'object',
+        properties: { query: { type: 'string', description: 'Search terms, e.g. "date picker range"' } },
+        required: ['query'],
+      },
+      call: ({ query }) => {
+        const terms = String(query ?? '')
+          .toLowerCase()
+          .split(/\s+/)
+          .filter(Boolean);
+        if (terms.length === 0) {
+          throw new Error('The search query is empty');
+        }
+
+        const results = items
+          .map(item => ({ item, ...scoreItem(item, getContent(item), terms) }))
+          .filter(({ score }) => score > 0)
+          .sort((a, b) => b.score - a.score)
+          .slice(0, SEARCH_RESULTS_LIMIT);
+
+        if (results.length === 0) {
+          return `No results for "${String(query)}"`;
+        }
+
+        return results.map(({ item, snippet }) => `- ${item.meta.id}: ${item.meta.title}\n  ${snippet}`).join('\n');
+      },
+    },
+    {
+      name: 'get_story_source',
+      description: 'Returns the source code of a story.',
+      inputSchema: {
+        type: 'object',
+        properties: { storyId: { type: 'string', description: 'Story id, e.g. "components-button--primary"' } },
+        required: ['storyId'],
+      },
+      call: ({ storyId }) => {
+        const story = items.map(item => item.stories[String(storyId)]).find(Boolean);
+        if (!story) {
+          throw new Error(`No story found for "${String(storyId)}", use get_component_docs to find story names`);
+        }
+
+        const source = story.parameters?.fullSource ?? story.parameters?.docs?.source?.originalSource;
+        if (!source) {
+          throw new Error(`Story "${story.id}" has no source`);
+        }
+        return source.trim();
+      },
+    },
+  ];
+}
+
+/**
+ * Scores an item for the search terms, title matches weigh more than description and content matches.
+ * The snippet is the first content line containing a search term.
+ */
+function scoreItem(item: StorybookStoreItem, content: string, terms: string[]) {
+  const title = item.meta.title.toLowerCase();
+  const description = (item.meta.parameters?.docs?.description?.component ?? '').toLowerCase();
+  const lowerContent = content.toLowerCase();
+
+  let score = 0;
+  for (const term of terms) {
+    if (title.includes(term) || item.meta.id.includes(term)) {
+      score += 10;
+    }
+    if (description.includes(term)) {
+      score += 3;
+    }
+    score += Math.min(lowerContent.split(term).length - 1, 5);
+  }
+
+  const lines = content.split('\n').filter(line => line.trim() && !line.startsWith('#'));
+  const snippet = lines.find(line => terms.some(term => line.toLowerCase().includes(term))) ?? lines[0] ?? '';
+
+  return { score, snippet: snippet.trim().slice(0, 160) };
+}
+
+/**
+ * Loads store items from a `manifest.json` written by a previous run, see `storeItemsFromManifest`.
+ */
+export async function loadStoreItemsFromManifest(manifestPath: string) {
+  const manifest: Manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+  return storeItemsFromManifest(manifest);
+}
+
+/**
+ * Converts manifest items back to store items, so that the docs can be rendered without the Storybook build.
+ * Prop types are kept as printed in the manifest.
+ */
+export function storeItemsFromManifest(manifest: Manifest): StorybookStoreItem[] {
+  const toComponent = (displayName: string, description: string, props: ManifestProp[]): StorybookComponent => ({
+    displayName,
+    __docgenInfo: {
+      description,
+      displayName,
+      props: Object.fromEntries(
+        props.map((prop): [string, StorybookComponentProp] => [
+          prop.name,
+          {
+            name: prop.name,
+            description: prop.description,
+            required: prop.required,
+            defaultValue: prop.defaultValue,
+            type: { name: prop.type },
+          },
+        ]),
+      ),
+    },
+  });
+
+  return manifest.items.map(item => {
+    const isPage = item.kind === 'page';
+    const stories = item.stories.map(
+      (story): StorybookStoreItemStory => ({
+        id: story.id,
+        name: story.name,
+        parameters: {
+          docs: {
+            ...(story.description && { description: { story: story.description } }),
+            ...(!isPage && { source: { originalSource: story.source } }),
+          },
+          ...(isPage && { docsOnly: true, fullSource: story.source }),
+        },
+      }),
+    );
+
+    return {
+      meta: {
+        id: item.id,
+        title: item.title,
+        parameters: { fileName: '', docs: { description: { component: item.description } } },
+        ...(!isPage && {
+          component: toComponent(item.title.split('/').pop() ?? item.title, item.description, item.props),
+          subcomponents: Object.fromEntries(
+            item.subcomponents.map(({ name, description, props }) => [name, toComponent(name, description, props)]),
+          ),
+        }),
+      },
+      stories: Object.fromEntries(stories.map(story => [story.id, story])),
+    };
+  });
+}
+
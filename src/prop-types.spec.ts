@@ -0,0 +1,145 @@
+import { stringifyPropType } from './prop-types';
+
+describe('prop-types', () => {
+  describe('stringifyPropType', () => {
+    it('should print react-docgen-typescript types', () => {
+      expect(stringifyPropType({ name: 'boolean' })).toBe('boolean');
+      expect(stringifyPropType({ name: 'AccordionToggleEventHandler<unknown>' })).toBe(
+        'AccordionToggleEventHandler<unknown>',
+      );
+      expect(
+        stringifyPropType({ name: 'enum', raw: 'ButtonSize', value: [{ value: '"small"' }, { value: '"large"' }] }),
+      ).toBe('"small" | "large"');
+      expect(stringifyPropType({ name: 'enum', value: [{ value: '"div"' }] })).toBe('"div"');
+      expect(stringifyPropType({ name: 'enum', raw: 'Exclude<Size, "huge">' })).toBe('Exclude<Size, "huge">');
+    });
+
+    it('should print react-docgen tsType unions, intersections, generics and literals', () => {
+      expect(
+        stringifyPropType({
+          name: 'union',
+          raw: "'a' | 'b' | number[]",
+          elements: [
+            { name: 'literal', value: "'a'" },
+            { name: 'literal', value: "'b'" },
+            { name: 'Array', elements: [{ name: 'number' }], raw: 'number[]' },
+          ],
+        }),
+      ).toBe("'a' | 'b' | number[]");
+      expect(
+        stringifyPropType({
+          name: 'intersection',
+          elements: [
+            { name: 'BaseProps' },
+            { name: 'union', elements: [{ name: 'A' }, { name: 'B' }] },
+            { name: 'Partial', elements: [{ name: 'Record', elements: [{ name: 'string' }, { name: 'unknown' }] }] },
+          ],
+        }),
+      ).toBe('BaseProps & (A | B) & Partial<Record<string, unknown>>');
+      expect(
+        stringifyPropType({
+          name: 'Array',
+          elements: [{ name: 'union', elements: [{ name: 'string' }, { name: 'number' }] }],
+        }),
+      ).toBe('(string | number)[]');
+      expect(stringifyPropType({ name: 'tuple', elements: [{ name: 'number' }, { name: 'number' }] })).toBe(
+        '[number, number]',
+      );
+    });
+
+    it('should keep qualified and generic names of react-docgen tsType', () => {
+      expect(stringifyPropType({ name: 'ReactReactNode', raw: 'React.ReactNode' })).toBe('React.ReactNode');
+      expect(
+        stringifyPropType({
+          name: 'ReactMouseEventHandler',
+          raw: 'React.MouseEventHandler<HTMLButtonElement>',
+          elements: [{ name: 'HTMLButtonElement' }],
+        }),
+      ).toBe('React.MouseEventHandler<HTMLButtonElement>');
+      expect(
+        stringifyPropType({
+          name: 'signature',
+          type: 'function',
+          raw: '(event: React.MouseEvent<HTMLElement>, data: OpenData) => void',
+          signature: {
+            arguments: [
+              {
+                name: 'event',
+                type: {
+                  name: 'ReactMouseEvent',
+                  raw: 'React.MouseEvent<HTMLElement>',
+                  elements: [{ name: 'HTMLElement' }],
+                },
+              },
+              { name: 'data', type: { name: 'OpenData' } },
+            ],
+            return: { name: 'void' },
+          },
+        }),
+      ).toBe('(event: React.MouseEvent<HTMLElement>, data: OpenData) => void');
+    });
+
+    it('should print react-docgen function and object signatures', () => {
+      const onChange = {
+        name: 'signature',
+        type: 'function' as const,
+        raw: '(ev: ChangeEvent<HTMLInputElement>, data: { value: string }) => void',
+        signature: {
+          arguments: [
+            { name: 'ev', type: { name: 'ChangeEvent', elements: [{ name: 'HTMLInputElement' }] } },
+            {
+              name: 'data',
+              type: {
+                name: 'signature',
+                type: 'object' as const,
+                signature: {
+                  properties: [
+                    { key: 'value', value: { name: 'string', required: true } },
+                    { key: 'checked', value: { name: 'boolean', required: false } },
+                    { key: { name: 'string' }, value: { name: 'unknown', required: true } },
+                  ],
+                },
+              },
+            },
+            { name: 'rest', type: { name: 'Array', elements: [{ name: 'unknown' }] }, rest: true },
+          ],
+          return: { name: 'void' },
+        },
+      };
+
+      expect(stringifyPropType(onChange)).toBe(
+        '(ev: ChangeEvent<HTMLInputElement>, data: { value: string; checked?: boolean; [key: string]: unknown }, ...rest: unknown[]) => void',
+      );
+      expect(stringifyPropType({ name: 'union', elements: [onChange, { name: 'null' }] })).toMatch(
+        /^\(\(ev: .*\) => void\) \| null$/,
+      );
+      expect(stringifyPropType({ name: 'signature', type: 'function', raw: '() => void' })).toBe('() => void');
+    });
+
+    it('should print react-docgen flow types and PropTypes', () => {
+      expect(stringifyPropType({ name: 'string', nullable: true })).toBe('string | null');
+      expect(
+        stringifyPropType({
+          name: 'enum',
+          value: [
+            { value: "'left'", computed: false },
+            { value: "'right'", computed: false },
+          ],
+        }),
+      ).toBe("'left' | 'right'");
+      expect(stringifyPropType({ name: 'union', value: [{ name: 'string' }, { name: 'node' }] })).toBe(
+        'string | ReactNode',
+      );
+      expect(stringifyPropType({ name: 'arrayOf', value: { name: 'func' } })).toBe('Function[]');
+      expect(stringifyPropType({ name: 'objectOf', value: { name: 'number' } })).toBe('Record<string, number>');
+      expect(
+        stringifyPropType({
+          name: 'shape',
+          value: { name: { name: 'string', required: true }, age: { name: 'number', required: false } },
+        }),
+      ).toBe('{ name: string; age?: number }');
+      expect(stringifyPropType({ name: 'instanceOf', value: 'Date' })).toBe('Date');
+      expect(stringifyPropType({ name: 'custom', raw: 'customValidator' })).toBe('customValidator');
+    });
+  });
+});
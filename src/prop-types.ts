@@ -0,0 +1,175 @@
+import type { DocgenSignature, DocgenType } from './types';
+
+/**
+ * Names of PropTypes validators mapped to their TypeScript equivalent.
+ */
+const PROP_TYPES_NAMES: Record<string, string> = {
+  bool: 'boolean',
+  func: 'Function',
+  node: 'ReactNode',
+  element: 'ReactElement',
+  elementType: 'ElementType',
+};
+
+/**
+ * How a printed type binds, used to add parentheses where a type is nested into another one.
+ */
+type TypeKind = 'function' | 'union' | 'intersection' | 'simple';
+
+type PrintedType = { text: string; kind: TypeKind };
+
+/**
+ * Prints a docgen type as a readable TypeScript-like signature, e.g. `"small" | "large"`,
+ * `(event: MouseEvent<HTMLElement>, data: { open: boolean }) => void` or `Array<string | number>[]`.
+ *
+ * Supports the `react-docgen-typescript` format as well as `tsType`, `flowType` and PropTypes of `react-docgen`.
+ */
+export function stringifyPropType(type?: DocgenType | string | null): string {
+  if (!type) {
+    return '';
+  }
+  if (typeof type === 'string') {
+    return type;
+  }
+
+  return printType(type).text;
+}
+
+function printType(type: DocgenType): PrintedType {
+  const printed = printNonNullableType(type);
+  if (!type.nullable) {
+    return printed;
+  }
+
+  return { text: `${wrapType(printed, ['function'])} | null`, kind: 'union' };
+}
+
+function printNonNullableType(type: DocgenType): PrintedType {
+  const { name = '', raw, value, elements } = type;
+
+  switch (name) {
+    case 'enum':
+    case 'union': {
+      const members = Array.isArray(value) ? value : elements;
+      if (!members?.length) {
+        return simple(raw ?? (typeof value === 'string' ? value : name));
+      }
+      return printMembers(members, ' | ', 'union', ['function']);
+    }
+    case 'intersection':
+      return elements?.length
+        ? printMembers(elements, ' & ', 'intersection', ['function', 'union'])
+        : simple(raw ?? name);
+    case 'literal':
+      return simple(typeof value === 'string' ? value : raw ?? name);
+    case 'signature':
+      return printSignature(type.type, type.signature, raw);
+    case 'tuple':
+      return simple(`[${(elements ?? []).map(element => printType(element).text).join(', ')}]`);
+    case 'Array':
+    case 'array':
+    case 'arrayOf': {
+      const element = elements?.length === 1 ? elements[0] : getValueType(value);
+      if (element) {
+        return simple(`${wrapType(printType(element), ['function', 'union', 'intersection'])}[]`);
+      }
+      break;
+    }
+    case 'objectOf': {
+      const valueType = getValueType(value);
+      if (valueType) {
+        return simple(`Record<string, ${printType(valueType).text}>`);
+      }
+      break;
+    }
+    case 'shape':
+    case 'exact': {
+      const shape = getValueType(value) as Record<string, DocgenType> | undefined;
+      if (shape) {
+        return simple(printProperties(Object.entries(shape).map(([key, property]) => ({ key, value: property }))));
+      }
+      break;
+    }
+    case 'instanceOf':
+      if (typeof value === 'string') {
+        return simple(value);
+      }
+      break;
+    case 'custom':
+      return simple(raw ?? name);
+  }
+
+  // `react-docgen` strips the dots of qualified names, e.g. `ReactReactNode` for `React.ReactNode`
+  if (raw) {
+    return simple(raw);
+  }
+  if (elements?.length) {
+    return simple(`${name}<${elements.map(element => printType(element).text).join(', ')}>`);
+  }
+
+  return simple(PROP_TYPES_NAMES[name] ?? name);
+}
+
+function printMembers(members: DocgenType[], separator: string, kind: TypeKind, wrappedKinds: TypeKind[]): PrintedType {
+  if (members.length === 1) {
+    return printMember(members[0]!);
+  }
+
+  const texts = [...new Set(members.map(member => wrapType(printMember(member), wrappedKinds)))];
+  return { text: texts.join(separator), kind };
+}
+
+/**
+ * Prints enum values of `react-docgen-typescript` and PropTypes `oneOf`, which only have a `value`, like literals.
+ */
+function printMember(member: DocgenType): PrintedType {
+  if (!member.name && typeof member.value === 'string') {
+    return simple(member.value);
+  }
+
+  return printType(member);
+}
+
+function printSignature(kind: DocgenType['type'], signature?: DocgenSignature, raw?: string): PrintedType {
+  if (kind === 'object' && signature?.properties) {
+    return simple(printProperties(signature.properties));
+  }
+  if (kind === 'function' && signature) {
+    const parameters = (signature.arguments ?? []).map(({ name, type, rest }) => {
+      const parameter = `${rest ? '...' : ''}${name}`;
+      return type ? `${parameter}: ${printType(type).text}` : parameter;
+    });
+    const returnType = signature.return ? printType(signature.return).text : 'void';
+    return { text: `(${parameters.join(', ')}) => ${returnType}`, kind: 'function' };
+  }
+
+  return simple(raw ?? (kind === 'function' ? 'Function' : 'object'));
+}
+
+function printProperties(properties: NonNullable<DocgenSignature['properties']>) {
+  if (properties.length === 0) {
+    return '{}';
+  }
+
+  const members = properties.map(({ key, value }) => {
+    const name = typeof key === 'string' ? key : `[key: ${printType(key).text}]`;
+    const optional = typeof key === 'string' && value.required === false ? '?' : '';
+    return `${name}${optional}: ${printType(value).text}`;
+  });
+  return `{ ${members.join('; ')} }`;
+}
+
+function wrapType({ text, kind }: PrintedType, wrappedKinds: TypeKind[]) {
+  return wrappedKinds.includes(kind) ? `(${text})` : text;
+}
+
+function simple(text: string): PrintedType {
+  return { text, kind: 'simple' };
+}
+
+/**
+ * Returns the nested type of `arrayOf`/`objectOf` PropTypes, or the properties of `shape`/`exact` PropTypes.
+ */
+function getValueType(value: DocgenType['value']) {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as DocgenType) : undefined;
+}
@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { resolveConfig } from './config';
+import { renderLlmsDocs } from './generate';
+import {
+  builtinRenderers,
+  getRenderers,
+  renderOutputFiles,
+  writeAdditionalFiles,
+  writeFullDocsFiles,
+  writeSummaryFile,
+} from './renderers';
+import type { RendererPlugin } from './types';
+
+const ragRenderer: RendererPlugin = {
+  name: 'rag',
+  renderItem: (item, { docsFile }) => [{ file: docsFile(`rag/${item.meta.id}.json`), content: item.meta.title }],
+  render: (items, { docsFile }) => [
+    { file: docsFile('rag.jsonl'), content: items.map(item => JSON.stringify({ id: item.meta.id })).join('\n') },
+  ],
+};
+
+describe('renderers', () => {
+  describe('getRenderers', () => {
+    it('should append plugins to the built-in renderers and replace built-ins by name', () => {
+      const sitemapRenderer: RendererPlugin = { name: 'sitemap', render: () => [] };
+
+      expect(getRenderers({}).map(({ name }) => name)).toEqual(['summary', 'text', 'html', 'sitemap', 'manifest']);
+      expect(getRenderers({ renderers: [ragRenderer, sitemapRenderer] })).toEqual([
+        ...builtinRenderers.slice(0, 3),
+        sitemapRenderer,
+        builtinRenderers[4],
+        ragRenderer,
+      ]);
+      expect(() => getRenderers({ renderers: [ragRenderer, ragRenderer] })).toThrow(/more than one renderer/);
+    });
+  });
+
+  describe('renderOutputFiles', () => {
+    it('should render the files of the built-in renderers', () => {
+      const files = renderOutputFiles(resolveConfig(argsWithRefs), storybookStoreItems).map(({ file }) => file);
+
+      expect(files).toEqual([
+        'llms.txt',
+        'llms-full.txt',
+        ...storybookStoreItems.map(item => `llms/${item.meta.id}.txt`),
+        ...storybookStoreItems.map(item => `llms/${item.meta.id}.html`),
+        'llms/index.html',
+        'llms/sitemap.xml',
+        'llms/manifest.json',
+        'llms/manifest.schema.json',
+      ]);
+    });
+
+    it('should write the files of plugins', async () => {
+      const tempPath = await mkdtemp(join(tmpdir(), 'renderers-spec-'));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        const result = await renderLlmsDocs({ ...argsWithRefs, distPath: tempPath, renderers: [ragRenderer] }, [
+          storybookStoreItems[0]!,
+        ]);
+
+        const { id, title } = storybookStoreItems[0]!.meta;
+        expect(result.files).toContain(join(tempPath, 'llms', 'rag.jsonl'));
+        expect(await readFile(join(tempPath, 'llms', 'rag', `${id}.json`), 'utf-8')).toBe(title);
+        expect(await readFile(join(tempPath, 'llms', 'rag.jsonl'), 'utf-8')).toBe(JSON.stringify({ id }));
+      } finally {
+        jest.restoreAllMocks();
+        await rm(tempPath, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('writeSummaryFile and writeAdditionalFiles', () => {
+    it('should write the summaries and the shared docs files with the renderers', async () => {
+      const tempPath = await mkdtemp(join(tmpdir(), 'renderers-spec-'));
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      try {
+        const sitemapRenderer: RendererPlugin = {
+          name: 'sitemap',
+          render: (_, { docsFile }) => [{ file: docsFile('sitemap.xml'), content: 'custom' }],
+        };
+        const args = resolveConfig({ ...argsWithRefs, distPath: tempPath, renderers: [sitemapRenderer] });
+
+        expect(await writeSummaryFile(args, storybookStoreItems)).toEqual([
+          join(tempPath, 'llms.txt'),
+          join(tempPath, 'llms-full.txt'),
+        ]);
+        await writeFullDocsFiles(args, storybookStoreItems);
+        expect(await writeAdditionalFiles(args, storybookStoreItems)).toEqual([
+          join(tempPath, 'llms', 'index.html'),
+          join(tempPath, 'llms', 'sitemap.xml'),
+          join(tempPath, 'llms', 'manifest.json'),
+          join(tempPath, 'llms', 'manifest.schema.json'),
+        ]);
+        expect(await readFile(join(tempPath, 'llms', 'sitemap.xml'), 'utf-8')).toBe('custom');
+      } finally {
+        jest.restoreAllMocks();
+        await rm(tempPath, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import { existsSync } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, join, relative, sep } from 'node:path';
+
+import { hashItemOutput, readCache, writeCache } from './cache';
+import { defaultConfig, getDocsPath } from './config';
+import { generateManifest, manifestSchema } from './manifest';
+import type { Args, OutputFile, RendererContext, RendererPlugin, StorybookStoreItem } from './types';
+import {
+  DOCS_DIR_MARKER,
+  generateBudgetedFileContent,
+  generateFullFileHtmlContentFromStory,
+  generateFullSummaryContent,
+  generateSitemapContent,
+  generateSummaryContent,
+  generateSummaryHtmlContent,
+  removeDocsDir,
+} from './utils';
+
+/**
+ * Writes `llms.txt` and, with `fullSummary`, `llms-full.txt`.
+ */
+export const summaryRenderer: RendererPlugin = {
+  name: 'summary',
+  render: (items, { args }) => [
+    { file: 'llms.txt', content: generateSummaryContent(args, items).join('\n') },
+    ...(args.fullSummary
+      ? [{ file: 'llms-full.txt', content: generateFullSummaryContent(args, items).join('\n') }]
+      : []),
+  ],
+};
+
+/**
+ * Writes the Markdown docs file of every component/page once per `docsFormats`, e.g. `llms/components-button.txt`.
+ */
+export const textRenderer: RendererPlugin = {
+  name: 'text',
+  renderItem: (item, { args, docsFile }) => {
+    const content = generateBudgetedFileContent(args, item).content.join('\n');
+    return args.docsFormats.map(format => ({ file: docsFile(`${item.meta.id}.${format}`), content }));
+  },
+};
+
+/**
+ * Writes the HTML docs file of every component/page and the HTML summary `llms/index.html`.
+ */
+export const htmlRenderer: RendererPlugin = {
+  name: 'html',
+  renderItem: (item, { args, docsFile }) => [
+    { file: docsFile(`${item.meta.id}.html`), content: generateFullFileHtmlContentFromStory(args, item) },
+  ],
+  render: (items, { args, docsFile }) => [
+    { file: docsFile('index.html'), content: generateSummaryHtmlContent(args, items) },
+  ],
+};
+
+/**
+ * Writes `llms/sitemap.xml`.
+ */
+export const sitemapRenderer: RendererPlugin = {
+  name: 'sitemap',
+  render: (items, { args, docsFile }) => [
+    { file: docsFile('sitemap.xml'), content: generateSitemapContent(args, items) },
+  ],
+};
+
+/**
+ * Writes `llms/manifest.json` and its JSON schema `llms/manifest.schema.json` with `manifest`.
+ */
+export const manifestRenderer: RendererPlugin = {
+  name: 'manifest',
+  render: (items, { args, docsFile }) =>
+    args.manifest
+      ? [
+          { file: docsFile('manifest.json'), content: JSON.stringify(generateManifest(args, items), null, 2) },
+          { file: docsFile('manifest.schema.json'), content: JSON.stringify(manifestSchema, null, 2) },
+        ]
+      : [],
+};
+
+/**
+ * Built-in renderers, in the order their files are written.
+ */
+export const builtinRenderers: RendererPlugin[] = [
+  summaryRenderer,
+  textRenderer,
+  htmlRenderer,
+  sitemapRenderer,
+  manifestRenderer,
+];
+
+/**
+ * Returns the built-in renderers followed by the `renderers` of the config. A renderer named like a built-in one
+ * replaces it.
+ */
+export function getRenderers({ renderers = defaultConfig.renderers }: Pick<Args, 'renderers'>): RendererPlugin[] {
+  const names = new Set<string>();
+  for (const renderer of renderers) {
+    if (!renderer.name) {
+      throw new Error('Invalid renderer: renderers need a name.');
+    }
+    if (names.has(renderer.name)) {
+      throw new Error(`Invalid renderer: more than one renderer is named ${renderer.name}.`);
+    }
+    names.add(renderer.name);
+  }
+
+  const builtinNames = builtinRenderers.map(({ name }) => name);
+  return [
+    ...builtinRenderers.map(builtin => renderers.find(({ name }) => name === builtin.name) ?? builtin),
+    ...renderers.filter(({ name }) => !builtinNames.includes(name)),
+  ];
+}
+
+/**
+ * Renders the files of a single component/page with every renderer.
+ */
+export function renderItemFiles(args: Required<Args>, item: StorybookStoreItem, renderers = getRenderers(args)) {
+  const context = createRendererContext(args);
+  return renderers.flatMap(renderer => renderer.renderItem?.(item, context) ?? []);
+}
+
+/**
+ * Renders the files of all components/pages with every renderer: summaries, HTML summary, sitemap and manifest.
+ */
+export function renderSharedFiles(args: Required<Args>, data: StorybookStoreItem[], renderers = getRenderers(args)) {
+  const context = createRendererContext(args);
+  return renderers.flatMap(renderer => renderer.render?.(data, context) ?? []);
+}
+
+/**
+ * Computes all docs files in memory, renderer by renderer: the files of every component/page, then the shared ones.
+ */
+export function renderOutputFiles(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  renderers = getRenderers(args),
+): OutputFile[] {
+  const context = createRendererContext(args);
+  return renderers.flatMap(renderer => [
+    ...data.flatMap(item => renderer.renderItem?.(item, context) ?? []),
+    ...(renderer.render?.(data, context) ?? []),
+  ]);
+}
+
+/**
+ * Writes the files of every component/page from `storeItems`, see `RendererPlugin.renderItem`.
+ * By default, a text file per `docsFormats` (`.txt`, `.md`, `.html.md`) and a `.html` file.
+ *
+ * The docs directory is cleaned up first, see `removeDocsDir`. With `cache`, it is only when the cache lists no docs
+ * files, e.g. on the first run or after a version change: files of items unchanged since the previous run are kept
+ * as is, files of items removed from the build are deleted.
+ * Returns the paths of the written files.
+ */
+export async function writeFullDocsFiles(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  renderers = getRenderers(args),
+): Promise<string[]> {
+  const llmsDir = getDocsPath(args);
+  const files: string[] = [];
+
+  const llmsCache = args.cache ? await readCache(llmsDir) : undefined;
+  // The MDX contents may be cached already, the docs files are only known if a previous run listed them
+  if (!llmsCache || !Object.values(llmsCache.items).some(({ files }) => files)) {
+    // Clean up docs directory
+    await removeDocsDir(llmsDir, args.force);
+  }
+  await mkdir(llmsDir, { recursive: true });
+  await writeFile(join(llmsDir, DOCS_DIR_MARKER), '');
+
+  let unchangedItems = 0;
+  for (const item of data) {
+    const outputFiles = renderItemFiles(args, item, renderers);
+    // The cache stores paths relative to the docs directory
+    const itemFiles = outputFiles.map(({ file }) => relative(llmsDir, join(args.outDir, file)).split(sep).join('/'));
+    const outputHash = llmsCache && hashItemOutput(args, item);
+    const cacheEntry = llmsCache?.items[item.meta.id];
+
+    // Remove files of docs formats or renderers that are not written anymore
+    for (const file of cacheEntry?.files ?? []) {
+      if (!itemFiles.includes(file)) {
+        await rm(join(llmsDir, file), { force: true });
+      }
+    }
+
+    if (
+      outputHash &&
+      cacheEntry?.outputHash === outputHash &&
+      itemFiles.every(file => existsSync(join(llmsDir, file)))
+    ) {
+      llmsCache.items[item.meta.id] = { ...cacheEntry, files: itemFiles };
+      unchangedItems++;
+      continue;
+    }
+
+    for (const outputFile of outputFiles) {
+      files.push(await writeOutputFile(args, outputFile));
+    }
+
+    if (llmsCache && outputHash) {
+      llmsCache.items[item.meta.id] = { ...cacheEntry, outputHash, files: itemFiles };
+    }
+  }
+
+  if (llmsCache) {
+    // Prune files of items removed from the build
+    const itemIds = new Set(data.map(item => item.meta.id));
+    for (const [itemId, cacheEntry] of Object.entries(llmsCache.items)) {
+      if (itemIds.has(itemId)) {
+        continue;
+      }
+      for (const file of cacheEntry.files ?? []) {
+        await rm(join(llmsDir, file), { force: true });
+      }
+      delete llmsCache.items[itemId];
+    }
+
+    await writeCache(llmsDir, llmsCache);
+    console.log(`♻️ ${unchangedItems} of ${data.length} docs files unchanged since the previous run.`);
+  }
+
+  return files;
+}
+
+/**
+ * Writes the files of all components/pages, see `RendererPlugin.render`. Must run after `writeFullDocsFiles`, which
+ * cleans up the docs directory.
+ * Returns the paths of the written files.
+ */
+export async function writeSharedFiles(
+  args: Required<Args>,
+  data: StorybookStoreItem[],
+  renderers = getRenderers(args),
+): Promise<string[]> {
+  const files: string[] = [];
+  for (const outputFile of renderSharedFiles(args, data, renderers)) {
+    const filePath = await writeOutputFile(args, outputFile);
+    console.log(`✅ LLMs docs file written to ${filePath}`);
+    files.push(filePath);
+  }
+  return files;
+}
+
+/**
+ * Writes `llms.txt` and, with `fullSummary`, `llms-full.txt` with the `summary` renderer.
+ * Returns the paths of the written files.
+ */
+export function writeSummaryFile(args: Required<Args>, data: StorybookStoreItem[], renderers = getRenderers(args)) {
+  return writeSharedFiles(args, data, filterRenderers(renderers, [summaryRenderer]));
+}
+
+/**
+ * Writes the HTML summary, the sitemap and the manifest with the `html`, `sitemap` and `manifest` renderers.
+ * Must run after `writeFullDocsFiles`, which cleans up the docs directory.
+ * Returns the paths of the written files.
+ */
+export function writeAdditionalFiles(args: Required<Args>, data: StorybookStoreItem[], renderers = getRenderers(args)) {
+  return writeSharedFiles(args, data, filterRenderers(renderers, [htmlRenderer, sitemapRenderer, manifestRenderer]));
+}
+
+/**
+ * Keeps the renderers named like the given built-in ones, i.e. the built-in ones or their replacements.
+ */
+function filterRenderers(renderers: RendererPlugin[], builtins: RendererPlugin[]) {
+  return renderers.filter(renderer => builtins.some(({ name }) => name === renderer.name));
+}
+
+function createRendererContext(args: Required<Args>): RendererContext {
+  return { args, docsFile: fileName => `${args.docsDir}/${fileName}` };
+}
+
+async function writeOutputFile({ outDir }: Required<Args>, { file, content }: OutputFile) {
+  const filePath = join(outDir, file);
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, content);
+  return filePath;
+}
@@ -0,0 +1,268 @@
+import {
+  createStoreItemsFromIndex,
+  extractDocgenFromSource,
+  extractStorySourcesFromSource,
+  findComponentDocgen,
+  parseStoryIndex,
+  toStoryIdPart,
+} from './static-extract';
+
+describe('static-extract', () => {
+  describe('parseStoryIndex', () => {
+    it('should parse index.json entries', () => {
+      const entries = parseStoryIndex({
+        v: 5,
+        entries: {
+          'components-button--primary': {
+            id: 'components-button--primary',
+            title: 'Components/Button',
+            name: 'Primary',
+            importPath: './src/Button.stories.tsx',
+            type: 'story',
+            tags: ['autodocs'],
+          },
+          'concepts-introduction--docs': {
+            id: 'concepts-introduction--docs',
+            title: 'Concepts/Introduction',
+            name: 'Docs',
+            importPath: './src/Introduction.mdx',
+            type: 'docs',
+          },
+        },
+      });
+
+      expect(entries).toEqual([
+        {
+          id: 'components-button--primary',
+          title: 'Components/Button',
+          name: 'Primary',
+          importPath: './src/Button.stories.tsx',
+          type: 'story',
+          tags: ['autodocs'],
+        },
+        {
+          id: 'concepts-introduction--docs',
+          title: 'Concepts/Introduction',
+          name: 'Docs',
+          importPath: './src/Introduction.mdx',
+          type: 'docs',
+          tags: [],
+        },
+      ]);
+    });
+
+    it('should parse legacy stories.json entries', () => {
+      const entries = parseStoryIndex({
+        v: 3,
+        stories: {
+          'concepts-introduction--page': {
+            id: 'concepts-introduction--page',
+            kind: 'Concepts/Introduction',
+            story: 'Page',
+            parameters: { fileName: './src/Introduction.stories.mdx', docsOnly: true },
+          },
+        },
+      });
+
+      expect(entries).toEqual([
+        {
+          id: 'concepts-introduction--page',
+          title: 'Concepts/Introduction',
+          name: 'Page',
+          importPath: './src/Introduction.stories.mdx',
+          type: 'docs',
+          tags: [],
+        },
+      ]);
+    });
+
+    it('should throw on unknown index format', () => {
+      expect(() => parseStoryIndex({ v: 6 })).toThrow('Invalid Storybook index');
+    });
+  });
+
+  describe('createStoreItemsFromIndex', () => {
+    it('should group stories by component and keep only standalone docs pages', () => {
+      const items = createStoreItemsFromIndex([
+        {
+          id: 'components-button--docs',
+          title: 'Components/Button',
+          name: 'Docs',
+          importPath: './src/Button.mdx',
+          type: 'docs',
+        },
+        {
+          id: 'components-button--primary',
+          title: 'Components/Button',
+          name: 'Primary',
+          importPath: './src/Button.stories.tsx',
+          type: 'story',
+        },
+        {
+          id: 'concepts-introduction--docs',
+          title: 'Concepts/Introduction',
+          name: 'Docs',
+          importPath: './src/Introduction.mdx',
+          type: 'docs',
+        },
+      ]);
+
+      expect(items).toEqual([
+        {
+          meta: {
+            id: 'components-button',
+            title: 'Components/Button',
+            parameters: { fileName: './src/Button.stories.tsx' },
+          },
+          stories: {
+            'components-button--primary': {
+              id: 'components-button--primary',
+              name: 'Primary',
+              parameters: { docs: {} },
+            },
+          },
+        },
+        {
+          meta: {
+            id: 'concepts-introduction',
+            title: 'Concepts/Introduction',
+            parameters: { fileName: './src/Introduction.mdx' },
+          },
+          stories: {
+            'concepts-introduction--docs': {
+              id: 'concepts-introduction--docs',
+              name: 'Docs',
+              parameters: { docs: {}, docsOnly: true },
+            },
+          },
+        },
+      ]);
+    });
+  });
+
+  describe('extractDocgenFromSource', () => {
+    it('should extract docgen from webpack bundles', () => {
+      const source = `
+        try {
+          Button.displayName = "Button";
+          Button.__docgenInfo = { "description": "A button { with braces }", "displayName": "Button", "props": { "appearance": { "name": "appearance", "required": false, "type": { "name": "\\"primary\\" | \\"secondary\\"" } } } };
+        } catch (__react_docgen_typescript_loader_error) {}
+      `;
+
+      expect(extractDocgenFromSource(source).get('Button')).toEqual({
+        description: 'A button { with braces }',
+        displayName: 'Button',
+        props: { appearance: { name: 'appearance', required: false, type: { name: '"primary" | "secondary"' } } },
+      });
+    });
+
+    it('should extract docgen from minified vite bundles', () => {
+      const source = `const a=e=>e;a.__docgenInfo={description:"",methods:[],displayName:"Badge",props:{size:{required:!1,tsType:{name:"string"},description:""}}};export{a as B};`;
+
+      expect(extractDocgenFromSource(source).get('Badge')).toEqual({
+        description: '',
+        methods: [],
+        displayName: 'Badge',
+        props: { size: { required: false, tsType: { name: 'string' }, description: '' } },
+      });
+    });
+
+    it('should skip docgen literals that are not plain data', () => {
+      const source = 'a.__docgenInfo={description:foo(),displayName:"Broken"};';
+
+      expect(extractDocgenFromSource(source).size).toBe(0);
+    });
+
+    it('should only evaluate plain data without running bundle code', () => {
+      const source = [
+        'a.__docgenInfo={displayName:"Getter",get props(){return globalThis.process.exit()}};',
+        'b.__docgenInfo={displayName:"Template",description:`${process.env.HOME}`};',
+        'c.__docgenInfo={displayName:"Proto",__proto__:{polluted:!0},props:{size:{defaultValue:{value:-1},tsType:void 0}}};',
+      ].join('');
+
+      const docgen = extractDocgenFromSource(source);
+
+      expect(Array.from(docgen.keys())).toEqual(['Proto']);
+      expect(Object.getPrototypeOf(docgen.get('Proto'))).toBe(Object.prototype);
+      expect(docgen.get('Proto')).toEqual({
+        displayName: 'Proto',
+        ['__proto__']: { polluted: true },
+        props: { size: { defaultValue: { value: -1 }, tsType: undefined } },
+      });
+    });
+  });
+
+  describe('findComponentDocgen', () => {
+    const createDocgen = (displayName: string, description: string) =>
+      `{description:"${description}",displayName:"${displayName}",props:{}}`;
+
+    it('should find the docgen of the component imported by a vite stories chunk', () => {
+      const formItem = {
+        fileName: 'Item-a1.js',
+        source: `const t=()=>null;t.__docgenInfo=${createDocgen('Item', 'Form item')};export{t as I};`,
+      };
+      const listItem = {
+        fileName: 'Item-b2.js',
+        source: `const t=()=>null;t.__docgenInfo=${createDocgen('Item', 'List item')};export{t as I};`,
+      };
+      const stories = {
+        fileName: 'ListItem.stories-c3.js',
+        source: 'import{I as o}from"./Item-b2.js";const e={title:"List/Item",component:o};export{e as default};',
+      };
+
+      expect(findComponentDocgen([formItem, listItem, stories], stories)?.description).toBe('List item');
+    });
+
+    it('should find the docgen of a component module member in webpack bundles', () => {
+      const main = {
+        fileName: 'main.iframe.bundle.js',
+        source: `Button.__docgenInfo=${createDocgen('Button', 'A button')};`,
+      };
+      const stories = {
+        fileName: 'src-Button-stories.iframe.bundle.js',
+        source:
+          'const __WEBPACK_DEFAULT_EXPORT__ = { title: "Button", component: _Button__WEBPACK_IMPORTED_MODULE_1__.Button };',
+      };
+
+      expect(findComponentDocgen([main, stories], stories)?.description).toBe('A button');
+    });
+
+    it('should find the docgen assigned in the stories bundle itself', () => {
+      const stories = {
+        fileName: 'Badge.stories-d4.js',
+        source: `const a=()=>null;a.__docgenInfo=${createDocgen(
+          'Badge',
+          'A badge',
+        )};const m={component:a};export{m as default};`,
+      };
+
+      expect(findComponentDocgen([stories], stories)?.description).toBe('A badge');
+      expect(
+        findComponentDocgen([stories], { fileName: 'Intro.js', source: 'const m={title:"Intro"};' }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('extractStorySourcesFromSource', () => {
+    it('should extract csf-plugin story sources keyed by export name', () => {
+      const source = [
+        'const r={args:{primary:!0}};',
+        'r.parameters={...r.parameters,docs:{...r.parameters?.docs,source:{originalSource:`{\\n  args: {\\n    primary: true\\n  }\\n}`,...r.parameters?.docs?.source}}};',
+        'export{r as PrimaryLarge};',
+      ].join('');
+
+      expect(extractStorySourcesFromSource(source)).toEqual(
+        new Map([['PrimaryLarge', '{\n  args: {\n    primary: true\n  }\n}']]),
+      );
+    });
+  });
+
+  describe('toStoryIdPart', () => {
+    it('should convert export names to story ids', () => {
+      expect(toStoryIdPart('ExpandIconPosition')).toBe('expand-icon-position');
+      expect(toStoryIdPart('WithHTMLContent')).toBe('with-html-content');
+      expect(toStoryIdPart('Size2XL')).toBe('size-2-xl');
+      expect(toStoryIdPart('Default')).toBe('default');
+    });
+  });
+});
@@ -0,0 +1,495 @@
+import { readFile, readdir } from 'node:fs/promises';
+import { basename, extname, join } from 'node:path';
+import { existsSync } from 'node:fs';
+import { type Expression, type Pattern, type SpreadElement, parseExpressionAt } from 'acorn';
+
+import type { Diagnostic, StorybookComponent, StorybookStoreItem } from './types';
+
+/**
+ * Normalized Storybook index entry, shared by `index.json` (Storybook >= 7) and legacy `stories.json` (Storybook 6).
+ */
+export type StoryIndexEntry = {
+  id: string;
+  title: string;
+  name: string;
+  importPath: string;
+  type: 'story' | 'docs';
+  tags?: string[];
+};
+
+/**
+ * Docgen info as emitted into the bundles by `react-docgen` or `react-docgen-typescript`.
+ */
+type DocgenInfo = NonNullable<StorybookComponent['__docgenInfo']>;
+
+const DOCGEN_ASSIGNMENT = /([\w$]+)\.__docgenInfo\s*=\s*\{/g;
+
+/**
+ * Extracts data for all stories from the static Storybook build, without launching a browser.
+ * Stories come from `index.json`/`stories.json`, component docgen and story sources from the bundled JS files.
+ *
+ * MDX pages are returned as `docsOnly` stories without `fullSource`, their content is only available at runtime.
+ * Returns `null` if the build contains no story index.
+ */
+export async function extractStorybookDataStatic(
+  distPath: string,
+  warnings: Diagnostic[] = [],
+): Promise<StorybookStoreItem[] | null> {
+  const entries = await readStoryIndex(distPath);
+  if (!entries) {
+    return null;
+  }
+
+  console.log(`▶️ Reading ${entries.length} story index entries from ${distPath}...`);
+
+  const storeItems = createStoreItemsFromIndex(entries);
+  const bundles = await readBundles(distPath);
+
+  for (const item of storeItems) {
+    const stories = Object.values(item.stories);
+    if (stories.every(story => story.parameters.docsOnly)) {
+      continue;
+    }
+
+    const bundle = findStoriesBundle(bundles, item.meta.parameters.fileName);
+    if (!bundle) {
+      warnings.push({
+        code: 'missing-stories-bundle',
+        message: `Unable to find the bundled stories file for "${item.meta.title}" (${item.meta.parameters.fileName})`,
+        itemId: item.meta.id,
+      });
+      continue;
+    }
+
+    const componentDocgen = findComponentDocgen(bundles, bundle);
+    if (componentDocgen) {
+      const displayName = componentDocgen.displayName ?? getComponentNameFromTitle(item.meta.title);
+      item.meta.component = { displayName, __docgenInfo: componentDocgen };
+    }
+
+    for (const [exportName, source] of extractStorySourcesFromSource(bundle.source)) {
+      const story = item.stories[`${item.meta.id}--${toStoryIdPart(exportName)}`];
+      if (story) {
+        story.parameters.docs.source = { originalSource: source };
+      }
+    }
+  }
+
+  console.log(`✔️ Extracted ${storeItems.length} stories from the Storybook index.`);
+
+  return storeItems;
+}
+
+/**
+ * Reads `index.json` (Storybook >= 7) or legacy `stories.json` (Storybook 6) from the Storybook build.
+ * Returns `null` if neither file exists.
+ */
+export async function readStoryIndex(distPath: string): Promise<StoryIndexEntry[] | null> {
+  for (const fileName of ['index.json', 'stories.json']) {
+    const filePath = join(distPath, fileName);
+    if (!existsSync(filePath)) {
+      continue;
+    }
+
+    const index = JSON.parse(await readFile(filePath, 'utf-8'));
+    return parseStoryIndex(index);
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes the content of `index.json` (`entries`, v4/v5) or `stories.json` (`stories`, v3).
+ */
+export function parseStoryIndex(index: unknown): StoryIndexEntry[] {
+  if (!index || typeof index !== 'object') {
+    throw new Error('Invalid Storybook index, expected an object');
+  }
+
+  if ('entries' in index && index.entries && typeof index.entries === 'object') {
+    return Object.values(index.entries as Record<string, StoryIndexEntry>).map(entry => ({
+      id: entry.id,
+      title: entry.title,
+      name: entry.name,
+      importPath: entry.importPath,
+      type: entry.type === 'docs' ? 'docs' : 'story',
+      tags: entry.tags ?? [],
+    }));
+  }
+
+  if ('stories' in index && index.stories && typeof index.stories === 'object') {
+    type LegacyStoryIndexEntry = {
+      id: string;
+      title?: string;
+      kind?: string;
+      name?: string;
+      story?: string;
+      importPath?: string;
+      parameters?: { fileName?: string; docsOnly?: boolean };
+    };
+
+    return Object.values(index.stories as Record<string, LegacyStoryIndexEntry>).map(entry => ({
+      id: entry.id,
+      title: entry.title ?? entry.kind ?? 'Unknown',
+      name: entry.name ?? entry.story ?? entry.id,
+      importPath: entry.importPath ?? entry.parameters?.fileName ?? '',
+      type: entry.parameters?.docsOnly ? 'docs' : 'story',
+      tags: [],
+    }));
+  }
+
+  throw new Error('Invalid Storybook index, expected an "entries" or "stories" property');
+}
+
+/**
+ * Groups index entries by component into `StorybookStoreItem[]`, in index order.
+ *
+ * Docs entries are only kept for standalone MDX pages, docs attached to a component with stories (autodocs or
+ * `<Meta of={...} />` pages) are rendered from the component stories instead.
+ */
+export function createStoreItemsFromIndex(entries: StoryIndexEntry[]): StorybookStoreItem[] {
+  const items = new Map<string, StorybookStoreItem>();
+
+  for (const entry of entries) {
+    const componentId = entry.id.split('--')[0] ?? entry.id;
+
+    let item = items.get(componentId);
+    if (!item) {
+      item = {
+        meta: {
+          id: componentId,
+          title: entry.title,
+          parameters: { fileName: entry.importPath },
+        },
+        stories: {},
+      };
+      items.set(componentId, item);
+    }
+
+    if (entry.type === 'story') {
+      // Prefer the stories file over an attached MDX file for docgen and source lookup
+      item.meta.parameters.fileName = entry.importPath;
+    }
+
+    item.stories[entry.id] = {
+      id: entry.id,
+      name: entry.name,
+      ...(entry.tags && { tags: entry.tags }),
+      parameters: {
+        docs: {},
+        ...(entry.type === 'docs' && { docsOnly: true }),
+      },
+    };
+  }
+
+  for (const item of items.values()) {
+    const stories = Object.values(item.stories);
+    if (stories.some(story => !story.parameters.docsOnly)) {
+      for (const story of stories) {
+        if (story.parameters.docsOnly) {
+          delete item.stories[story.id];
+        }
+      }
+    }
+  }
+
+  return Array.from(items.values());
+}
+
+/**
+ * Extracts all `__docgenInfo` assignments from a bundled JS file, keyed by component display name.
+ */
+export function extractDocgenFromSource(source: string): Map<string, DocgenInfo> {
+  const docgen = new Map<string, DocgenInfo>();
+  for (const [identifier, info] of getDocgenAssignments({ fileName: '', source })) {
+    docgen.set(info.displayName ?? identifier, info);
+  }
+  return docgen;
+}
+
+/**
+ * Finds the docgen of the component of a stories bundle, i.e. the `__docgenInfo` assigned to the `component` of its
+ * default export: in the stories bundle itself, in the chunk it is imported from (vite) or, for a module member
+ * (webpack), in the bundle assigning it under its export name.
+ */
+export function findComponentDocgen(bundles: Bundle[], storiesBundle: Bundle): DocgenInfo | undefined {
+  const component = /\bcomponent\s*:\s*([\w$]+(?:\.[\w$]+)*)\s*[,}]/.exec(storiesBundle.source)?.[1];
+  if (!component) {
+    return undefined;
+  }
+
+  // `component: _Button__WEBPACK_IMPORTED_MODULE_2__.Button`
+  if (component.includes('.')) {
+    const exportName = component.slice(component.lastIndexOf('.') + 1);
+    for (const bundle of [storiesBundle, ...bundles]) {
+      const docgen = getDocgenAssignments(bundle).get(exportName);
+      if (docgen) {
+        return docgen;
+      }
+    }
+    return undefined;
+  }
+
+  const docgen = getDocgenAssignments(storiesBundle).get(component);
+  if (docgen) {
+    return docgen;
+  }
+
+  // `import{B as a}from"./Button-D4f2a1.js"`
+  for (const match of storiesBundle.source.matchAll(/import\s*\{([^}]*)\}\s*from\s*["']([^"']+)["']/g)) {
+    const imported = parseSpecifiers(match[1] ?? '').find(([, local]) => local === component)?.[0];
+    const chunk = imported && bundles.find(bundle => bundle.fileName === basename(match[2] ?? ''));
+    if (chunk) {
+      const exports = parseSpecifiers(getExportSpecifiers(chunk.source));
+      const local = exports.find(([, exported]) => exported === imported)?.[0] ?? imported;
+      return getDocgenAssignments(chunk).get(local);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * `__docgenInfo` assignments of the bundles, keyed by assigned identifier, see `getDocgenAssignments`.
+ */
+const docgenAssignments = new WeakMap<Bundle, Map<string, DocgenInfo>>();
+
+/**
+ * Extracts all `__docgenInfo` assignments from a bundle, keyed by the identifier they are assigned to.
+ */
+function getDocgenAssignments(bundle: Bundle) {
+  let assignments = docgenAssignments.get(bundle);
+  if (!assignments) {
+    assignments = new Map();
+    for (const match of bundle.source.matchAll(DOCGEN_ASSIGNMENT)) {
+      const info = evaluateLiteral<DocgenInfo>(bundle.source, (match.index ?? 0) + match[0].length - 1);
+      if (info && typeof info === 'object') {
+        assignments.set(match[1] ?? '', info);
+      }
+    }
+    docgenAssignments.set(bundle, assignments);
+  }
+  return assignments;
+}
+
+/**
+ * Parses import or export specifiers, e.g. `a as B, c`, into `[name, alias]` pairs.
+ */
+function parseSpecifiers(specifiers: string) {
+  return specifiers
+    .split(',')
+    .map(specifier => specifier.trim().split(/\s+as\s+/))
+    .filter(([name]) => name)
+    .map(([name = '', alias]) => [name, alias ?? name] as const);
+}
+
+/**
+ * Returns the specifiers of all `export { ... }` statements of a bundle, comma-separated.
+ */
+function getExportSpecifiers(source: string) {
+  return Array.from(source.matchAll(/export\s*\{([^}]*)\}/g), match => match[1] ?? '').join(',');
+}
+
+/**
+ * Extracts story sources injected by `@storybook/csf-plugin` from a bundled stories file, keyed by export name.
+ */
+export function extractStorySourcesFromSource(source: string): Map<string, string> {
+  const exportNames = new Map(parseSpecifiers(getExportSpecifiers(source)));
+
+  const sources = new Map<string, string>();
+  const pattern =
+    /([\w$]+)\.parameters\s*=\s*\{\s*\.\.\.\1\.parameters\s*,\s*docs\s*:\s*\{[^{]*?source\s*:\s*\{\s*originalSource\s*:\s*/g;
+
+  for (const match of source.matchAll(pattern)) {
+    const local = match[1] ?? '';
+    const originalSource = evaluateLiteral<string>(source, (match.index ?? 0) + match[0].length);
+    if (typeof originalSource === 'string') {
+      sources.set(exportNames.get(local) ?? local, originalSource);
+    }
+  }
+
+  return sources;
+}
+
+/**
+ * Converts a CSF export name to the story part of a story id, e.g. `ExpandIcon` -> `expand-icon`.
+ * Mirrors `toId(title, storyNameFromExport(exportName))` from `@storybook/csf`.
+ */
+export function toStoryIdPart(exportName: string) {
+  return exportName
+    .replace(/([a-z\d])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1-$2')
+    .replace(/([a-zA-Z])(\d)/g, '$1-$2')
+    .toLowerCase()
+    .replace(/[^a-z\d]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Guesses the component display name from the last title segment, e.g. `Components/Date Picker` -> `DatePicker`.
+ */
+function getComponentNameFromTitle(title: string) {
+  return (title.split('/').pop() ?? title).replace(/\s+/g, '');
+}
+
+/**
+ * Bundled JS file of the Storybook build.
+ */
+export type Bundle = { fileName: string; source: string };
+
+/**
+ * Reads all preview JS bundles of the Storybook build. Manager bundles (`sb-*` folders) are skipped.
+ */
+export async function readBundles(distPath: string): Promise<Bundle[]> {
+  const bundles: Bundle[] = [];
+
+  const visit = async (dir: string) => {
+    for (const entry of await readdir(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('sb-') && entry.name !== 'node_modules') {
+          await visit(join(dir, entry.name));
+        }
+      } else if (extname(entry.name) === '.js') {
+        bundles.push({ fileName: entry.name, source: await readFile(join(dir, entry.name), 'utf-8') });
+      }
+    }
+  };
+
+  await visit(distPath);
+
+  return bundles;
+}
+
+/**
+ * Finds the bundle compiled from a stories file.
+ * Vite names chunks `Button.stories-[hash].js`, webpack `src-Button-stories.[hash].iframe.bundle.js`.
+ */
+export function findStoriesBundle(bundles: Bundle[], importPath: string) {
+  const stem = basename(importPath, extname(importPath));
+  const webpackStem = importPath
+    .replace(/^\.\//, '')
+    .replace(/\.[^.]+$/, '')
+    .replace(/[^\w]/g, '-');
+
+  return bundles.find(
+    bundle =>
+      bundle.fileName.startsWith(`${stem}-`) ||
+      bundle.fileName.startsWith(`${stem}.`) ||
+      bundle.fileName.startsWith(`${webpackStem}.`),
+  );
+}
+
+/**
+ * Parses the object or string literal starting at `start` and evaluates it as plain data, no bundle code is run.
+ * Returns `undefined` if the literal is not self-contained data.
+ */
+function evaluateLiteral<T>(source: string, start: number): T | undefined {
+  const end = findLiteralEnd(source, start);
+  if (end === -1) {
+    return undefined;
+  }
+
+  try {
+    return evaluateLiteralNode(parseExpressionAt(source.slice(start, end), 0, { ecmaVersion: 'latest' })) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Evaluates a literal node: objects, arrays, strings, numbers, booleans, `null`, `undefined`, template literals
+ * without expressions and the unary operators of minified literals, e.g. `!0`. Throws on anything else, e.g. calls.
+ */
+function evaluateLiteralNode(node: Expression | Pattern | SpreadElement | null): unknown {
+  switch (node?.type) {
+    case 'Literal':
+      if ('regex' in node || typeof node.value === 'bigint') {
+        break;
+      }
+      return node.value;
+    case 'TemplateLiteral':
+      if (node.expressions.length > 0) {
+        break;
+      }
+      return node.quasis.map(quasi => quasi.value.cooked ?? '').join('');
+    case 'ArrayExpression':
+      return node.elements.map(evaluateLiteralNode);
+    case 'ObjectExpression': {
+      const result: Record<string, unknown> = {};
+      for (const property of node.properties) {
+        if (property.type !== 'Property' || property.kind !== 'init' || property.computed || property.method) {
+          throw new Error(`Unsupported ${property.type} in literal`);
+        }
+        const key = property.key.type === 'Identifier' ? property.key.name : evaluateLiteralNode(property.key);
+        // Defined rather than assigned, a `__proto__` key must not change the prototype
+        Object.defineProperty(result, String(key), {
+          value: evaluateLiteralNode(property.value),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return result;
+    }
+    case 'UnaryExpression': {
+      const argument = evaluateLiteralNode(node.argument);
+      switch (node.operator) {
+        case '-':
+          return -Number(argument);
+        case '+':
+          return Number(argument);
+        case '!':
+          return !argument;
+        case 'void':
+          return undefined;
+      }
+      break;
+    }
+    case 'Identifier':
+      if (node.name === 'undefined') {
+        return undefined;
+      }
+      break;
+  }
+
+  throw new Error(`Unsupported ${node?.type ?? 'hole'} in literal`);
+}
+
+/**
+ * Finds the end index (exclusive) of the object or string literal starting at `start`, skipping nested strings.
+ */
+function findLiteralEnd(source: string, start: number) {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < source.length; i++) {
+    const char = source[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = null;
+        if (depth === 0) {
+          return i + 1;
+        }
+      }
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return i + 1;
+      }
+    } else if (depth === 0) {
+      return -1;
+    }
+  }
+
+  return -1;
+}
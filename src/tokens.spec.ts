@@ -0,0 +1,22 @@
+import { countTokens, formatTokenCount } from './tokens';
+
+describe('tokens', () => {
+  describe('countTokens', () => {
+    it('should count latin words by length and punctuation separately', () => {
+      expect(countTokens('')).toBe(0);
+      expect(countTokens('Button')).toBe(2);
+      expect(countTokens('<Button appearance="primary" />')).toBe(13);
+    });
+
+    it('should count CJK characters one token each', () => {
+      expect(countTokens('组件文档')).toBe(4);
+      expect(countTokens('Button 组件')).toBe(4);
+    });
+  });
+
+  describe('formatTokenCount', () => {
+    it('should format token counts with thousands separators', () => {
+      expect(formatTokenCount(5661)).toBe('~5,661 tokens');
+    });
+  });
+});
@@ -0,0 +1,24 @@
+const WORD_PATTERN = /[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+/**
+ * Approximates the number of tokens of a text without a model vocabulary.
+ * Latin words count one token per 4 characters, CJK characters and punctuation one token each.
+ */
+export function countTokens(text: string) {
+  let tokens = 0;
+
+  for (const [word] of text.matchAll(WORD_PATTERN)) {
+    const cjkLength = word.match(CJK_PATTERN)?.length ?? 0;
+    tokens += cjkLength + Math.ceil((word.length - cjkLength) / 4);
+  }
+
+  return tokens;
+}
+
+/**
+ * Formats a token count for the summary files, e.g. `~1,234 tokens`.
+ */
+export function formatTokenCount(tokens: number) {
+  return `~${tokens.toLocaleString('en-US')} tokens`;
+}
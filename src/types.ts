@@ -8,7 +8,18 @@ export type Args = {
    */
   distPath: string;
   /**
-   * Storybook deployed URL for the summary docs
+   * Relative path to the folder the docs are written to, defaults to `distPath`
+   * @example `--outDir "llms-static"`
+   */
+  outDir?: string;
+  /**
+   * Name of the subfolder of `outDir` holding the per component/page docs, HTML summary, sitemap and manifest.
+   * Also used in the docs URLs.
+   * @example `--docsDir "ai-docs"`
+   */
+  docsDir?: string;
+  /**
+   * Storybook deployed URL for the summary docs, an empty string or `.` creates relative links
    * @example `--summaryBaseUrl "https://storybook.fluentui.dev/"`
    */
   summaryBaseUrl: string;
@@ -28,6 +39,474 @@ export type Args = {
    * @example `--refs "{title:'foo', url:'www'}"`
    */
   refs?: StorybookRef[];
+  /**
+   * How to extract stories from the Storybook build:
+   * - `browser`: evaluate the Storybook store in Chromium (default)
+   * - `static`: read `index.json`/`stories.json` and the bundled docgen/CSF output, without a browser
+   * - `auto`: like `static`, but launch a browser to render MDX pages, or when the build has no story index
+   * @example `--extractMode "static"`
+   */
+  extractMode?: ExtractMode;
+  /**
+   * Maximum number of MDX docs pages rendered in the browser at once
+   * @example `--concurrency 8`
+   */
+  concurrency?: number;
+  /**
+   * Timeout in milliseconds for a MDX docs page to render
+   * @example `--renderTimeout 10000`
+   */
+  renderTimeout?: number;
+  /**
+   * Number of retries for MDX docs pages that fail to render or render empty
+   * @example `--renderRetries 3`
+   */
+  renderRetries?: number;
+  /**
+   * Initial delay in milliseconds between retries, doubled after every attempt
+   * @example `--renderRetryDelay 1000`
+   */
+  renderRetryDelay?: number;
+  /**
+   * Condition to wait for before reading a MDX docs page:
+   * - `selector`: `.sbdocs-content` is attached (default)
+   * - `networkidle`: no network requests for 500ms
+   * - any other value is evaluated in the page as a JS expression until it is truthy
+   * @example `--renderWaitFor "window.__DOCS_RENDERED__ === true"`
+   */
+  renderWaitFor?: string;
+  /**
+   * Fail the run if any problem is found (empty MDX pages, components without props, stories without source, ...)
+   * @example `--strict`
+   */
+  strict?: boolean;
+  /**
+   * Glob patterns over `meta.title` and `meta.id`, only matching components/pages are kept.
+   * `*` matches within a title segment, `**` across segments.
+   * @example `--include "Components/**"`
+   */
+  include?: string[];
+  /**
+   * Glob patterns over `meta.title` and `meta.id`, matching components/pages are dropped.
+   * @example `--exclude "Deprecated/**" --exclude "*-playground"`
+   */
+  exclude?: string[];
+  /**
+   * Storybook tag filter. Stories must have every plain tag and none of the `!`-prefixed tags.
+   * Components/pages with no remaining stories are dropped.
+   * @example `--tags "autodocs" --tags "!dev"`
+   */
+  tags?: string[];
+  /**
+   * Write `llms-full.txt` with the full documentation of all components and pages concatenated
+   * @example `--no-fullSummary`
+   */
+  fullSummary?: boolean;
+  /**
+   * Maximum size of `llms-full.txt` in bytes, sections exceeding it are only listed as links. `0` disables the limit.
+   * @example `--fullSummaryMaxSize 500000`
+   */
+  fullSummaryMaxSize?: number;
+  /**
+   * Number of title segments used to group the summary into sections, e.g. `1` groups `Components/Button`
+   * under `## Components`, `2` groups `Concepts/Developer/Quick Start` under `## Concepts` / `### Developer`.
+   * `0` writes a flat list.
+   * @example `--summaryGroupDepth 2`
+   */
+  summaryGroupDepth?: number;
+  /**
+   * Order of the top-level summary sections, unlisted sections follow in order of appearance
+   * @example `--summarySectionOrder "Concepts" --summarySectionOrder "Components"`
+   */
+  summarySectionOrder?: string[];
+  /**
+   * Top-level summary sections listed under `## Optional`, which LLMs may skip for a shorter context
+   * @example `--summaryOptionalSections "Migration"`
+   */
+  summaryOptionalSections?: string[];
+  /**
+   * Text formats of the docs file written for every component/page next to its `.html` file
+   * @example `--docsFormats "md" --docsFormats "html.md"`
+   */
+  docsFormats?: DocsFileFormat[];
+  /**
+   * Layout of the Markdown docs files of components: order and headings of the sections, additional static sections
+   * (e.g. import statements or accessibility notes) and per-title overrides. A function returns the template of each
+   * component. Only available from a JS config file or the Node API.
+   * @example `docsTemplate: { sections: ['title', { heading: 'Import', content: '...' }, 'props', 'examples'] }`
+   */
+  docsTemplate?: DocsTemplate | DocsTemplateFunction;
+  /**
+   * Packages components are imported from, for the import section of their docs files. Keys are title prefixes
+   * (e.g. `Components`) or glob patterns over titles, ids and `fileName`s (e.g. `src/charts/**`), the first matching
+   * entry is used. Only available from a config file or the Node API.
+   * @example `importPackages: { 'Components/Charts': '@acme/charts', Components: '@acme/ui' }`
+   */
+  importPackages?: Record<string, string>;
+  /**
+   * Import components from the name of the closest `package.json` of their `fileName` when no `importPackages` entry
+   * matches. File names are resolved against the current working directory.
+   * @example `--importPackageJson`
+   */
+  importPackageJson?: boolean;
+  /**
+   * Format of the docs files linked from `llms.txt` and `llms-full.txt`, text formats missing from `docsFormats` link
+   * to the first of `docsFormats` instead
+   * @example `--summaryLinkFormat "html"`
+   */
+  summaryLinkFormat?: DocsLinkFormat;
+  /**
+   * Format of the docs files linked from the HTML summary (`index.html`)
+   * @example `--indexLinkFormat "txt"`
+   */
+  indexLinkFormat?: DocsLinkFormat;
+  /**
+   * Append the approximate token count of every docs file to the `llms.txt` entries and the HTML summary cards
+   * @example `--no-tokenCounts`
+   */
+  tokenCounts?: boolean;
+  /**
+   * Function counting the tokens of a text, defaults to an offline heuristic.
+   * Only available from a JS config file or the Node API.
+   * @example `tokenizer: text => encode(text).length`
+   */
+  tokenizer?: Tokenizer;
+  /**
+   * Maximum number of tokens per component docs file, `0` disables the limit.
+   * Exceeding files are trimmed: examples beyond `tokenBudgetMaxExamples` are dropped first, then subcomponent props,
+   * then long descriptions are shortened.
+   * @example `--tokenBudget 8000`
+   */
+  tokenBudget?: number;
+  /**
+   * Number of examples kept when a docs file exceeds `tokenBudget`
+   * @example `--tokenBudgetMaxExamples 5`
+   */
+  tokenBudgetMaxExamples?: number;
+  /**
+   * Write `llms/manifest.json`, a machine-readable index of all components and pages, and its JSON schema
+   * @example `--no-manifest`
+   */
+  manifest?: boolean;
+  /**
+   * Renderer plugins writing additional docs files, after the built-in ones. A plugin named like a built-in renderer
+   * (`summary`, `text`, `html`, `sitemap`, `manifest`) replaces it.
+   * Only available from a JS config file or the Node API.
+   * @example `renderers: [{ name: 'rag', render: items => [{ file: 'rag.jsonl', content: '...' }] }]`
+   */
+  renderers?: RendererPlugin[];
+  /**
+   * Incremental generation: MDX pages unchanged since the previous run are not rendered again, docs files of unchanged
+   * components/pages are not rewritten and files of removed ones are deleted.
+   * The cache is stored in `.llms-cache.json` in the docs folder.
+   * @example `--cache`
+   */
+  cache?: boolean;
+  /**
+   * Clean up the docs folder even if it was not created by this tool, e.g. once for docs written by an older version
+   * @example `--force`
+   */
+  force?: boolean;
+  /**
+   * Compute all docs files in memory without writing anything to disk
+   * @example `--dryRun`
+   */
+  dryRun?: boolean;
+  /**
+   * Compare the generated docs files with the existing ones, see `GenerateResult.changes`
+   * @example `--diff`
+   */
+  diff?: boolean;
+};
+
+/**
+ * Counts the tokens of a text, see `Args.tokenizer`.
+ */
+export type Tokenizer = (text: string) => number;
+
+/**
+ * Renders docs files from the store items, see `Args.renderers`. All paths are relative to `outDir`, use
+ * `RendererContext.docsFile` for files in the docs folder.
+ */
+export type RendererPlugin = {
+  /**
+   * Unique name of the renderer
+   */
+  name: string;
+  /**
+   * Renders the files of a single component/page, e.g. `llms/components-button.txt`.
+   * With `cache`, they are not rewritten while the component/page is unchanged and are deleted with it.
+   */
+  renderItem?: (item: StorybookStoreItem, context: RendererContext) => OutputFile[];
+  /**
+   * Renders the files of all components/pages, e.g. `llms.txt` or `llms/sitemap.xml`
+   */
+  render?: (items: StorybookStoreItem[], context: RendererContext) => OutputFile[];
+};
+
+/**
+ * Built-in sections of the component docs files, see `DocsTemplate.sections`.
+ */
+export type DocsSectionName = 'title' | 'description' | 'import' | 'props' | 'subcomponents' | 'examples';
+
+/**
+ * Additional section of the component docs files, e.g. import statements or accessibility notes.
+ */
+export type DocsCustomSection = {
+  /**
+   * Heading of the section, rendered as `## heading`
+   */
+  heading: string;
+  /**
+   * Markdown content, `{{title}}`, `{{id}}` and `{{name}}` (the last title segment) are replaced with the values of
+   * the component. A function returns the content for a component. Sections without content are omitted.
+   */
+  content: string | ((item: StorybookStoreItem) => string | undefined);
+};
+
+/**
+ * Layout of the Markdown docs files of components, see `Args.docsTemplate`. MDX pages are not affected.
+ */
+export type DocsTemplate = {
+  /**
+   * Order of the sections, built-in sections left out are not rendered.
+   * Defaults to `['title', 'description', 'import', 'props', 'subcomponents', 'examples']`.
+   */
+  sections?: (DocsSectionName | DocsCustomSection)[];
+  /**
+   * Headings of the built-in sections, e.g. `{ props: 'API' }`
+   */
+  headings?: Partial<Record<'import' | 'props' | 'subcomponents' | 'examples', string>>;
+  /**
+   * Templates of the components matching glob patterns over `meta.title` and `meta.id`, e.g. `Components/Button`.
+   * All matching overrides are merged into the template in order: `sections` are replaced, `headings` merged.
+   */
+  overrides?: Record<string, DocsTemplate>;
+};
+
+/**
+ * Returns the template of a component, see `Args.docsTemplate`.
+ */
+export type DocsTemplateFunction = (item: StorybookStoreItem) => DocsTemplate | undefined;
+
+/**
+ * Passed to the renderer plugins, see `RendererPlugin`.
+ */
+export type RendererContext = {
+  /**
+   * Resolved config
+   */
+  args: Required<Args>;
+  /**
+   * Returns the path of a file in the docs folder relative to `outDir`, e.g. `llms/components-button.txt`
+   */
+  docsFile: (fileName: string) => string;
+};
+
+/**
+ * Story extraction mode, see `Args.extractMode`.
+ */
+export type ExtractMode = 'browser' | 'static' | 'auto';
+
+/**
+ * Text format of the per component/page docs files, i.e. their extension, see `Args.docsFormats`.
+ * `html.md` is the llmstxt.org companion naming of the `.html` page, e.g. `components-button.html.md`.
+ */
+export type DocsFileFormat = 'txt' | 'md' | 'html.md';
+
+/**
+ * Format of the linked docs files, i.e. their extension, see `Args.summaryLinkFormat` and `Args.indexLinkFormat`.
+ */
+export type DocsLinkFormat = DocsFileFormat | 'html';
+
+/**
+ * Result of a `generateLlmsDocs` run.
+ */
+export type GenerateResult = {
+  /**
+   * Absolute paths of all files written to disk, or that would be written with `dryRun`
+   */
+  files: string[];
+  /**
+   * Number of Storybook store items (components and pages) processed
+   */
+  itemsProcessed: number;
+  /**
+   * Non-fatal problems encountered during extraction, e.g. skipped items or failed MDX pages
+   */
+  warnings: Diagnostic[];
+  /**
+   * Changes of the docs files compared to the existing ones, set with `diff`
+   */
+  changes?: ChangeReport;
+};
+
+/**
+ * Result of a `validateLlmsDocs` run.
+ */
+export type ValidateResult = {
+  /**
+   * Output files that do not match the Storybook build, empty if the docs are up to date
+   */
+  problems: OutputFileProblem[];
+  /**
+   * Problems encountered during extraction, see `GenerateResult.warnings`
+   */
+  warnings: Diagnostic[];
+};
+
+/**
+ * Output file not matching the Storybook build:
+ * - `missing`: the file would be generated but does not exist
+ * - `outdated`: the file content differs from the generated content
+ * - `stale`: the file exists in the docs folder but would not be generated anymore
+ */
+export type OutputFileProblem = {
+  /**
+   * Path relative to `outDir`
+   */
+  file: string;
+  reason: 'missing' | 'outdated' | 'stale';
+};
+
+/**
+ * Docs file computed in memory.
+ */
+export type OutputFile = {
+  /**
+   * Path relative to `outDir`
+   */
+  file: string;
+  content: string;
+};
+
+/**
+ * Changes of the docs files compared to the existing ones, e.g. to be posted as a PR comment.
+ */
+export type ChangeReport = {
+  /**
+   * Ids of the components/pages whose docs files were added, removed or modified
+   */
+  items: {
+    added: string[];
+    removed: string[];
+    modified: string[];
+  };
+  /**
+   * Changed files, unchanged files are left out
+   */
+  files: OutputFileChange[];
+};
+
+/**
+ * Change of a single docs file, with a unified diff of its content.
+ */
+export type OutputFileChange = {
+  /**
+   * Path relative to `outDir`
+   */
+  file: string;
+  status: 'added' | 'removed' | 'modified';
+  diff: string;
+};
+
+/**
+ * Problem found while extracting or rendering the docs. Fails the run in `strict` mode.
+ */
+export type Diagnostic = {
+  code: DiagnosticCode;
+  message: string;
+  /**
+   * Id of the affected store item, if any
+   */
+  itemId?: string;
+  /**
+   * Id of the affected story of the item, if any
+   */
+  storyId?: string;
+};
+
+/**
+ * Diagnostic codes:
+ * - `invalid-store-item`: the Storybook store returned an item without the expected `meta`/`stories` shape
+ * - `empty-mdx`: a MDX page failed to render or rendered no content
+ * - `missing-props`: a component has neither docgen props nor argTypes
+ * - `missing-story-source`: a story has no source code
+ * - `missing-stories-bundle`: the bundled stories file was not found in static extract mode
+ * - `token-budget-exceeded`: a docs file still exceeds `tokenBudget` after trimming
+ */
+export type DiagnosticCode =
+  | 'invalid-store-item'
+  | 'empty-mdx'
+  | 'missing-props'
+  | 'missing-story-source'
+  | 'missing-stories-bundle'
+  | 'token-budget-exceeded';
+
+/**
+ * Content of `llms/manifest.json`, validated by `llms/manifest.schema.json`.
+ */
+export type Manifest = {
+  $schema: string;
+  /**
+   * Manifest format version, incremented on breaking changes
+   */
+  version: 1;
+  title: string;
+  description: string;
+  baseUrl: string;
+  items: ManifestItem[];
+};
+
+/**
+ * Component or MDX page in the manifest.
+ */
+export type ManifestItem = {
+  id: string;
+  title: string;
+  kind: 'component' | 'page';
+  description: string;
+  props: ManifestProp[];
+  subcomponents: ManifestSubcomponent[];
+  stories: ManifestStory[];
+  /**
+   * Paths of the generated docs files, relative to `outDir`
+   */
+  files: string[];
+  /**
+   * Approximate token count of the `.txt` docs file
+   */
+  tokens: number;
+};
+
+/**
+ * Normalized component prop in the manifest, `type` is printed as in the docs tables.
+ */
+export type ManifestProp = {
+  name: string;
+  type: string;
+  required: boolean;
+  defaultValue: string;
+  description: string;
+};
+
+/**
+ * Subcomponent in the manifest.
+ */
+export type ManifestSubcomponent = {
+  name: string;
+  description: string;
+  props: ManifestProp[];
+};
+
+/**
+ * Story in the manifest. For MDX pages, `source` holds the rendered page content.
+ */
+export type ManifestStory = {
+  id: string;
+  name: string;
+  description: string;
+  source: string;
 };
 
 /**
@@ -55,6 +534,18 @@ export type StorybookStoreItemMeta = {
   };
   component?: StorybookComponent;
   subcomponents?: Record<string, StorybookComponent>;
+  /**
+   * Component-level Storybook tags, inherited by all stories.
+   */
+  tags?: string[];
+  /**
+   * Component-level argTypes, enrich or override the docgen props of `component`.
+   */
+  argTypes?: StorybookArgTypes;
+  /**
+   * Component-level args, shared by all stories.
+   */
+  args?: StorybookArgs;
 };
 
 /**
@@ -63,6 +554,18 @@ export type StorybookStoreItemMeta = {
 export type StorybookStoreItemStory = {
   id: string;
   name: string;
+  /**
+   * Storybook tags, including the ones inherited from the component meta.
+   */
+  tags?: string[];
+  /**
+   * Args set by the story.
+   */
+  args?: StorybookArgs;
+  /**
+   * Args the story is rendered with, including the component-level args.
+   */
+  initialArgs?: StorybookArgs;
   parameters: {
     docs: {
       description?: {
@@ -97,16 +600,95 @@ export type StorybookComponent = {
  * Storybook component prop metadata, contains prop name, description, type, etc.
  */
 export type StorybookComponentProp = {
+  /**
+   * Category of the matching argType (`table.category`), props are grouped by it.
+   */
+  category?: string;
   defaultValue?: { value: string } | string | null;
   description?: string;
   name: string;
   required?: boolean;
-  type?: {
-    name?: string;
-    value?: { value: string }[];
+  type?: DocgenType;
+  /**
+   * TypeScript type as emitted by `react-docgen`, preferred over `type`.
+   */
+  tsType?: DocgenType;
+  /**
+   * Flow type as emitted by `react-docgen`, preferred over `type`.
+   */
+  flowType?: DocgenType;
+};
+
+/**
+ * Storybook args, values that are not serializable (e.g. functions) are left out during extraction and React elements
+ * are replaced by their JSX tag, e.g. `<Icon />`.
+ */
+export type StorybookArgs = Record<string, unknown>;
+
+/**
+ * Storybook argTypes, keyed by arg name.
+ * see: https://storybook.js.org/docs/api/arg-types
+ */
+export type StorybookArgTypes = Record<string, StorybookArgType>;
+
+/**
+ * Storybook argType, documents an arg and configures its control.
+ */
+export type StorybookArgType = {
+  name?: string;
+  description?: string;
+  /**
+   * Storybook type of the arg, either as shorthand (e.g. `'string'`) or object.
+   */
+  type?: string | (DocgenType & { required?: boolean });
+  control?: string | false | { type?: string };
+  options?: readonly unknown[];
+  table?: {
+    /**
+     * Hides the arg from the docs, it is left out of the props tables.
+     */
+    disable?: boolean;
+    category?: string;
+    subcategory?: string;
+    type?: { summary?: string; detail?: string };
+    defaultValue?: { summary?: string; detail?: string };
   };
 };
 
+/**
+ * Docgen type of a prop, either in the `react-docgen-typescript` format (`name`, `raw` and enum `value`) or in the
+ * `react-docgen` format (`tsType`/`flowType` with `elements`, `signature` and `raw`, PropTypes with `value`).
+ *
+ * @example
+ * ```ts
+ * { name: 'enum', raw: '"small" | "large"', value: [{ value: '"small"' }, { value: '"large"' }] }
+ * { name: 'signature', type: 'function', raw: '(ev: Event) => void', signature: { arguments: [...], return: {...} } }
+ * ```
+ */
+export type DocgenType = {
+  name?: string;
+  raw?: string;
+  /**
+   * Enum values, union members, array element, shape properties or literal/instance value, depending on `name`.
+   */
+  value?: string | DocgenType | DocgenType[] | Record<string, DocgenType>;
+  elements?: DocgenType[];
+  type?: 'function' | 'object';
+  signature?: DocgenSignature;
+  required?: boolean;
+  nullable?: boolean;
+  computed?: boolean;
+};
+
+/**
+ * Function or object signature of a `react-docgen` type.
+ */
+export type DocgenSignature = {
+  arguments?: { name: string; type?: DocgenType; rest?: boolean }[];
+  return?: DocgenType;
+  properties?: { key: string | DocgenType; value: DocgenType }[];
+};
+
 /**
  * Composed Storybook ref, used to link to other Storybook docs.
  * see: https://storybook.js.org/docs/sharing/storybook-composition
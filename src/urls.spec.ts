@@ -0,0 +1,89 @@
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { defaultConfig, resolveConfig } from './config';
+import { getDocsFileUrl, getItemDocsUrl, getRefSummaryUrl, joinUrl } from './urls';
+import {
+  generateFullSummaryContent,
+  generateSitemapContent,
+  generateSummaryContent,
+  generateSummaryHtmlContent,
+} from './utils';
+
+describe('urls', () => {
+  describe('joinUrl', () => {
+    it('should join with single slashes', () => {
+      expect(joinUrl('https://example.com/', '/llms/', 'button.txt')).toBe('https://example.com/llms/button.txt');
+      expect(joinUrl('https://example.com/docs//', 'llms.txt')).toBe('https://example.com/docs/llms.txt');
+      expect(joinUrl('https://example.com/docs')).toBe('https://example.com/docs');
+    });
+
+    it('should keep root-relative and relative base URLs', () => {
+      expect(joinUrl('/', 'llms', 'button.txt')).toBe('/llms/button.txt');
+      expect(joinUrl('/storybook/', 'llms.txt')).toBe('/storybook/llms.txt');
+      expect(joinUrl('', 'llms', 'button.txt')).toBe('llms/button.txt');
+      expect(joinUrl('.', 'llms.txt')).toBe('llms.txt');
+    });
+  });
+
+  describe('getDocsFileUrl', () => {
+    it('should resolve relative links from the docs directory without docsDir', () => {
+      expect(getDocsFileUrl({ summaryBaseUrl: '', docsDir: 'ai-docs' }, 'index.html')).toBe('ai-docs/index.html');
+      expect(getDocsFileUrl({ summaryBaseUrl: '', docsDir: 'ai-docs' }, 'button.html', 'docsDir')).toBe('button.html');
+      expect(getItemDocsUrl({ summaryBaseUrl: '/', docsDir: 'ai-docs' }, 'button', 'html', 'docsDir')).toBe(
+        '/ai-docs/button.html',
+      );
+    });
+  });
+
+  describe('getRefSummaryUrl', () => {
+    it('should link to the llms.txt of the ref', () => {
+      expect(getRefSummaryUrl({ title: 'Charts', url: 'https://charts.fluentui.dev/' })).toBe(
+        'https://charts.fluentui.dev/llms.txt',
+      );
+    });
+  });
+
+  describe('summary links', () => {
+    it('should not create protocol-relative links with the default base URL', () => {
+      const args = resolveConfig({ distPath: 'dist', summaryBaseUrl: defaultConfig.summaryBaseUrl });
+
+      expect(generateSummaryContent(args, storybookStoreItems)).toContain(
+        '- [Concepts/Introduction](/llms/concepts-introduction.txt): (~350 tokens)',
+      );
+      expect(generateSitemapContent(args, storybookStoreItems)).toContain('<loc>/llms.txt</loc>');
+    });
+
+    it('should link to the configured formats', () => {
+      const args = resolveConfig({ ...argsWithRefs, summaryLinkFormat: 'html', indexLinkFormat: 'txt' });
+
+      expect(generateSummaryContent(args, storybookStoreItems).join('\n')).toContain(
+        'full documentation file in HTML (.html) format',
+      );
+      expect(generateSummaryContent(args, storybookStoreItems)).toContain(
+        '- [Concepts/Introduction](https://react.fluentui.dev/llms/concepts-introduction.html): (~350 tokens)',
+      );
+      expect(generateSummaryHtmlContent(args, storybookStoreItems)).toContain(
+        'href="https://react.fluentui.dev/llms/concepts-introduction.txt"',
+      );
+      expect(generateSummaryHtmlContent(args, storybookStoreItems)).toContain('plain text (.txt) 格式');
+      expect(generateFullSummaryContent(args, storybookStoreItems)).toContain(
+        'url: https://react.fluentui.dev/llms/concepts-introduction.html',
+      );
+      expect(generateSummaryHtmlContent(resolveConfig(argsWithRefs), storybookStoreItems)).toContain(
+        'HTML (.html) 格式',
+      );
+    });
+
+    it('should create relative links from llms.txt and the HTML index', () => {
+      const args = resolveConfig({ ...argsWithRefs, summaryBaseUrl: '' });
+
+      expect(generateSummaryContent(args, storybookStoreItems)).toContain(
+        '- [Concepts/Introduction](llms/concepts-introduction.txt): (~350 tokens)',
+      );
+      expect(generateSummaryHtmlContent(args, storybookStoreItems)).toContain(
+        'href="concepts-introduction.html" class="component-link"',
+      );
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import { defaultConfig } from './config';
+import type { Args, DocsLinkFormat, StorybookRef } from './types';
+
+/**
+ * Folder a link is resolved from: `outDir` for `llms.txt`/`llms-full.txt`, `docsDir` for the files in the docs folder,
+ * e.g. `index.html`. Only matters for relative links.
+ */
+type LinkOrigin = 'outDir' | 'docsDir';
+
+/**
+ * Joins a base URL and path segments with single slashes, e.g. `https://example.com/` and `/llms/` to
+ * `https://example.com/llms`. A base URL of only slashes stays root-relative (`/llms`), an empty base URL or `.`
+ * returns the relative path (`llms`).
+ */
+export function joinUrl(baseUrl: string, ...segments: string[]) {
+  const path = segments
+    .map(segment => segment.replace(/^\/+|\/+$/g, ''))
+    .filter(Boolean)
+    .join('/');
+  const base = baseUrl.trim();
+
+  if (isRelativeBaseUrl(base)) {
+    return path;
+  }
+  if (/^\/+$/.test(base)) {
+    return `/${path}`;
+  }
+
+  return path ? `${base.replace(/\/+$/, '')}/${path}` : base;
+}
+
+/**
+ * Checks if links are written relative to the linking file, i.e. `summaryBaseUrl` is empty or `.`.
+ */
+export function isRelativeBaseUrl(baseUrl: string) {
+  return ['', '.', './'].includes(baseUrl.trim());
+}
+
+/**
+ * Returns the URL of a file in `outDir`, e.g. `llms.txt`.
+ */
+export function getOutputFileUrl({ summaryBaseUrl }: Pick<Args, 'summaryBaseUrl'>, fileName: string) {
+  return joinUrl(summaryBaseUrl, fileName);
+}
+
+/**
+ * Returns the URL of a file in the docs directory. Relative links from a file in the docs directory omit `docsDir`.
+ */
+export function getDocsFileUrl(
+  { summaryBaseUrl, docsDir = defaultConfig.docsDir }: Pick<Args, 'summaryBaseUrl' | 'docsDir'>,
+  fileName: string,
+  origin: LinkOrigin = 'outDir',
+) {
+  if (isRelativeBaseUrl(summaryBaseUrl) && origin === 'docsDir') {
+    return joinUrl('', fileName);
+  }
+
+  return joinUrl(summaryBaseUrl, docsDir, fileName);
+}
+
+/**
+ * Returns the URL of the docs of a component/page in `format`, e.g. `/llms/components-button.txt`.
+ * Text formats that are not written link to the first of `docsFormats` instead.
+ */
+export function getItemDocsUrl(
+  args: Pick<Args, 'summaryBaseUrl' | 'docsDir' | 'docsFormats'>,
+  id: string,
+  format: DocsLinkFormat,
+  origin: LinkOrigin = 'outDir',
+) {
+  return getDocsFileUrl(args, `${id}.${resolveDocsLinkFormat(args, format)}`, origin);
+}
+
+/**
+ * Returns `format` if its docs files are written, otherwise the first of `docsFormats`.
+ */
+export function resolveDocsLinkFormat(
+  { docsFormats = defaultConfig.docsFormats }: Pick<Args, 'docsFormats'>,
+  format: DocsLinkFormat,
+): DocsLinkFormat {
+  return format === 'html' || docsFormats.includes(format) ? format : docsFormats[0] ?? 'html';
+}
+
+/**
+ * Returns the URL of the `llms.txt` file of a composed Storybook.
+ */
+export function getRefSummaryUrl({ url }: StorybookRef) {
+  return joinUrl(url, 'llms.txt');
+}
@@ -1,7 +1,20 @@
 import { argsWithRefs } from './__fixtures__/args';
 import { storybookStoreItems } from './__fixtures__/storybook-store-items';
 
-import { convertHtmlToMarkdown, generateSummaryContent, generateFullFileContentFromStory, generateSitemapContent } from './utils';
+import { renderMarkdown } from './markdown';
+import type { DocsTemplate, StorybookComponentProp, StorybookStoreItem } from './types';
+
+import {
+  convertHtmlToMarkdown,
+  generateSummaryContent,
+  generateBudgetedFileContent,
+  generateFullFileContentFromStory,
+  generateFullFileHtmlContentFromStory,
+  generateSitemapContent,
+  generateFullSummaryContent,
+  groupSummaryItems,
+  runWithConcurrency,
+} from './utils';
 
 describe('generate-llms-docs', () => {
   describe('convertHtmlToMarkdown', () => {
@@ -187,7 +200,7 @@ describe('generate-llms-docs', () => {
         | \`defaultOpenItems\` | \`unknown\` | No |  | Default value for the uncontrolled state of the panel. |
         | \`collapsible\` | \`boolean\` | No |  | Indicates if Accordion support multiple Panels closed at the same time. |
         | \`multiple\` | \`boolean\` | No |  | Indicates if Accordion support multiple Panels opened at the same time. |
-        | \`navigation\` | \`\\"linear\\" \\"circular\\"\` | No |  | @deprecated Arrow keyboard navigation is not recommended for accordions. Consider using Tree if arrow navigation is a hard requirement. Indicates if keyboard navigation is available and gives two options, linear or circular navigation. |
+        | \`navigation\` | \`\\"linear\\" \\| \\"circular\\"\` | No |  | @deprecated Arrow keyboard navigation is not recommended for accordions. Consider using Tree if arrow navigation is a hard requirement. Indicates if keyboard navigation is available and gives two options, linear or circular navigation. |
         | \`onToggle\` | \`AccordionToggleEventHandler<unknown>\` | No |  | Callback to be called when the opened items change. |
         | \`openItems\` | \`unknown\` | No |  | Controls the state of the panel. |
         | \`ref\` | \`Ref<HTMLDivElement>\` | No |  |  |
@@ -220,16 +233,57 @@ describe('generate-llms-docs', () => {
         #### Props
 
 
-        | Name | Type | Required | Default | Description |
-        |------|------|----------|---------|-------------|
-        | \`button\` | \`NonNullable<WithSlotShorthandValue<ARIAButtonSlotProps<\\"a\\">> | null>\` | No |  | The component to be used as button in heading |
-        | \`expandIcon\` | \`WithSlotShorthandValue<{ as?: \\"span\\"; } & Omit<Omit<DetailedHTMLProps<HTMLAttributes<HTMLSpanElement>, HTMLSpanElement>, \\"ref\\"> & { ...; }, \\"children\\"> & { ...; }> | null\` | No |  | Expand icon slot rendered before (or after) children content in heading. |
-        | \`icon\` | \`WithSlotShorthandValue<{ as?: \\"div\\"; } & Omit<Omit<DetailedHTMLProps<HTMLAttributes<HTMLDivElement>, HTMLDivElement>, \\"ref\\"> & { ...; }, \\"children\\"> & { ...; }> | null\` | No |  | Expand icon slot rendered before (or after) children content in heading. |
-        | \`as\` | \`\\"div\\" \\"h1\\" \\"h2\\" \\"h3\\" \\"h4\\" \\"h5\\" \\"h6\\"\` | No |  |  |
-        | \`expandIconPosition\` | \`\\"start\\" \\"end\\"\` | No |  | The position of the expand  icon slot in heading. |
-        | \`inline\` | \`boolean\` | No |  | Indicates if the AccordionHeader should be rendered inline. |
-        | \`size\` | \`\\"small\\" \\"medium\\" \\"large\\" \\"extra-large\\"\` | No |  | Size of spacing in the heading. |
-        | \`ref\` | \`Ref<HTMLDivElement>\` | No |  |  |
+        - \`button\`
+
+          Type: \`NonNullable<WithSlotShorthandValue<ARIAButtonSlotProps<\\"a\\">> | null>\`
+
+          The component to be used as button in heading
+
+        - \`expandIcon\`
+
+          Type:
+
+          \`\`\`ts
+          WithSlotShorthandValue<{ as?: \\"span\\"; } & Omit<Omit<DetailedHTMLProps<HTMLAttributes<HTMLSpanElement>, HTMLSpanElement>, \\"ref\\"> & { ...; }, \\"children\\"> & { ...; }> | null
+          \`\`\`
+
+          Expand icon slot rendered before (or after) children content in heading.
+
+        - \`icon\`
+
+          Type:
+
+          \`\`\`ts
+          WithSlotShorthandValue<{ as?: \\"div\\"; } & Omit<Omit<DetailedHTMLProps<HTMLAttributes<HTMLDivElement>, HTMLDivElement>, \\"ref\\"> & { ...; }, \\"children\\"> & { ...; }> | null
+          \`\`\`
+
+          Expand icon slot rendered before (or after) children content in heading.
+
+        - \`as\`
+
+          Type: \`\\"div\\" | \\"h1\\" | \\"h2\\" | \\"h3\\" | \\"h4\\" | \\"h5\\" | \\"h6\\"\`
+
+        - \`expandIconPosition\`
+
+          Type: \`\\"start\\" | \\"end\\"\`
+
+          The position of the expand  icon slot in heading.
+
+        - \`inline\`
+
+          Type: \`boolean\`
+
+          Indicates if the AccordionHeader should be rendered inline.
+
+        - \`size\`
+
+          Type: \`\\"small\\" | \\"medium\\" | \\"large\\" | \\"extra-large\\"\`
+
+          Size of spacing in the heading.
+
+        - \`ref\`
+
+          Type: \`Ref<HTMLDivElement>\`
 
 
 
@@ -242,7 +296,7 @@ describe('generate-llms-docs', () => {
 
         | Name | Type | Required | Default | Description |
         |------|------|----------|---------|-------------|
-        | \`collapseMotion\` | \`PresenceMotionSlotProps | null\` | No |  |  |
+        | \`collapseMotion\` | \`PresenceMotionSlotProps \\| null\` | No |  |  |
         | \`as\` | \`\\"div\\"\` | No |  |  |
         | \`ref\` | \`Ref<HTMLDivElement>\` | No |  |  |
 
@@ -764,6 +818,266 @@ describe('generate-llms-docs', () => {
         \`\`\`"
       `);
     });
+
+    const createComponentItem = (props: Record<string, StorybookComponentProp>): StorybookStoreItem => ({
+      meta: {
+        id: 'components-button',
+        title: 'Components/Button',
+        parameters: { fileName: 'components-button.tsx', docs: {} },
+        component: { displayName: 'Button', __docgenInfo: { props } },
+      },
+      stories: {
+        'components-button--default': { id: 'components-button--default', name: 'Default', parameters: { docs: {} } },
+      },
+    });
+
+    it('should escape pipes and backticks in props table cells', () => {
+      const item = createComponentItem({
+        appearance: {
+          name: 'appearance',
+          description: 'Use `a | b` or *emphasis*,\nwrapped over | two lines.',
+          required: true,
+          defaultValue: { value: "'primary'" },
+          type: { name: '"primary" | "secondary"' },
+        },
+        template: {
+          name: 'template',
+          type: { name: '`${Size}-${Shape}`' },
+        },
+      });
+
+      const content = generateFullFileContentFromStory(item).join('\n');
+
+      expect(content).toContain(
+        [
+          '| Name | Type | Required | Default | Description |',
+          '|------|------|----------|---------|-------------|',
+          '| `appearance` | `"primary" \\| "secondary"` | Yes | \'primary\' | Use `a \\| b` or *emphasis*, wrapped over \\| two lines. |',
+          '| `template` | `` `${Size}-${Shape}` `` | No |  |  |',
+        ].join('\n'),
+      );
+      expect(renderMarkdown(content)).toContain(
+        [
+          '<tr>',
+          '<td><code>appearance</code></td>',
+          '<td><code>&quot;primary&quot; | &quot;secondary&quot;</code></td>',
+          '<td>Yes</td>',
+          "<td>'primary'</td>",
+          '<td>Use <code>a | b</code> or <em>emphasis</em>, wrapped over | two lines.</td>',
+          '</tr>',
+        ].join('\n'),
+      );
+    });
+
+    it('should fall back to a definition list for Markdown descriptions and long types', () => {
+      const item = createComponentItem({
+        size: {
+          name: 'size',
+          description: 'The size:\n\n- `small` | compact\n- `large`',
+          defaultValue: { value: "'small'" },
+          type: { name: '"small" | "large"' },
+        },
+        onChange: {
+          name: 'onChange',
+          description: 'Called on change.',
+          required: true,
+          type: { name: `(event: ChangeEvent<HTMLInputElement>, data: { value: string; checked: boolean }) => void` },
+        },
+      });
+
+      const content = generateFullFileContentFromStory(item).join('\n');
+
+      expect(content).toContain(
+        [
+          '## Props',
+          '',
+          '',
+          '- `size`',
+          '',
+          '  Type: `"small" | "large"`',
+          '',
+          "  Default: `'small'`",
+          '',
+          '  The size:',
+          '',
+          '  - `small` | compact',
+          '  - `large`',
+          '',
+          '- `onChange` (required)',
+          '',
+          '  Type:',
+          '',
+          '  ```ts',
+          '  (event: ChangeEvent<HTMLInputElement>, data: { value: string; checked: boolean }) => void',
+          '  ```',
+          '',
+          '  Called on change.',
+        ].join('\n'),
+      );
+      expect(renderMarkdown(content)).toContain('<li><code>small</code> | compact</li>');
+    });
+
+    it('should enrich props with argTypes and list the args of examples', () => {
+      const docgenItem = createComponentItem({
+        appearance: { name: 'appearance', description: 'Docgen description', type: { name: 'string' } },
+        internalRef: { name: 'internalRef', type: { name: 'Ref<HTMLElement>' } },
+      });
+      const item: StorybookStoreItem = {
+        meta: {
+          ...docgenItem.meta,
+          argTypes: {
+            appearance: {
+              description: 'Visual style of the button.',
+              options: ['primary', 'subtle'],
+              control: 'select',
+              table: { defaultValue: { summary: '"subtle"' } },
+            },
+            internalRef: { table: { disable: true } },
+            onClick: {
+              description: 'Called on click.',
+              type: { name: 'function', required: true },
+              table: { category: 'Events', type: { summary: '(ev: MouseEvent) => void' } },
+            },
+          },
+        },
+        stories: {
+          'components-button--primary': {
+            id: 'components-button--primary',
+            name: 'Primary',
+            args: { appearance: 'primary', count: 2, icon: '<Icon />', internalRef: {} },
+            parameters: { docs: {}, fullSource: '<Button appearance="primary" />' },
+          },
+        },
+      };
+
+      const content = generateFullFileContentFromStory(item).join('\n');
+
+      expect(content).toContain(
+        [
+          '## Props',
+          '',
+          '',
+          '| Name | Type | Required | Default | Description |',
+          '|------|------|----------|---------|-------------|',
+          '| `appearance` | `"primary" \\| "subtle"` | No | "subtle" | Visual style of the button. |',
+          '',
+          '### Events',
+          '',
+          '| Name | Type | Required | Default | Description |',
+          '|------|------|----------|---------|-------------|',
+          '| `onClick` | `(ev: MouseEvent) => void` | Yes |  | Called on click. |',
+        ].join('\n'),
+      );
+      expect(content).not.toContain('internalRef');
+      expect(content).toContain(
+        ['### Primary', '', 'Args:', '', '- `appearance`: `"primary"`', '- `count`: `2`', '- `icon`: `<Icon />`'].join(
+          '\n',
+        ),
+      );
+      expect(generateFullFileHtmlContentFromStory(argsWithRefs, item)).toContain(
+        '<li><code>appearance</code>: <code>&quot;primary&quot;</code></li>',
+      );
+    });
+
+    it('should prefer the docgen type over the table type inferred by Storybook', () => {
+      const { stories, meta } = createComponentItem({
+        onClick: {
+          name: 'onClick',
+          tsType: { name: 'ReactMouseEventHandler', raw: 'React.MouseEventHandler<HTMLButtonElement>' },
+        },
+      });
+      const item: StorybookStoreItem = {
+        meta: { ...meta, argTypes: { onClick: { table: { type: { summary: 'MouseEventHandler' } } } } },
+        stories,
+      };
+
+      expect(generateFullFileContentFromStory(item).join('\n')).toContain(
+        '| `onClick` | `React.MouseEventHandler<HTMLButtonElement>` | No |  |  |',
+      );
+    });
+
+    it('should document components without docgen from their argTypes', () => {
+      const { stories, meta } = createComponentItem({});
+      const item: StorybookStoreItem = {
+        meta: { id: meta.id, title: meta.title, parameters: meta.parameters, argTypes: { label: { type: 'string' } } },
+        stories,
+      };
+
+      expect(generateFullFileContentFromStory(item).join('\n')).toContain('| `label` | `string` | No |  |  |');
+    });
+
+    it('should print react-docgen tsType and flowType props', () => {
+      const item = createComponentItem({
+        items: {
+          name: 'items',
+          required: true,
+          tsType: { name: 'Array', elements: [{ name: 'union', elements: [{ name: 'string' }, { name: 'number' }] }] },
+        },
+        label: { name: 'label', flowType: { name: 'string', nullable: true } },
+      });
+
+      expect(generateFullFileContentFromStory(item).join('\n')).toContain(
+        ['| `items` | `(string \\| number)[]` | Yes |  |  |', '| `label` | `string \\| null` | No |  |  |'].join('\n'),
+      );
+    });
+
+    it('should follow the docs template', () => {
+      const item = createComponentItem({ size: { name: 'size', type: { name: 'string' } } });
+      const template: DocsTemplate = {
+        sections: [
+          'title',
+          { heading: 'Import', content: "```ts\nimport { {{name}} } from '@acme/ui';\n```" },
+          'examples',
+          'props',
+          { heading: 'Accessibility', content: ({ meta }) => (meta.title.includes('Dialog') ? 'Traps focus.' : '') },
+        ],
+        headings: { props: 'API' },
+        overrides: { 'Components/Button': { headings: { examples: 'Usage' } }, 'Components/Dialog': { sections: [] } },
+      };
+
+      expect(generateFullFileContentFromStory(item, { template }).join('\n')).toBe(
+        [
+          '# Components/Button',
+          '',
+          '## Import',
+          '',
+          '```ts',
+          "import { Button } from '@acme/ui';",
+          '```',
+          '',
+          '## Usage',
+          '',
+          '',
+          '### Default',
+          '',
+          '## API',
+          '',
+          '',
+          '| Name | Type | Required | Default | Description |',
+          '|------|------|----------|---------|-------------|',
+          '| `size` | `string` | No |  |  |',
+          '',
+          '',
+        ].join('\n'),
+      );
+      expect(generateFullFileContentFromStory(item, { template: () => ({ sections: ['title'] }) })).toEqual([
+        '# Components/Button',
+        '',
+      ]);
+    });
+
+    it('should follow the docs template and the token budget in the HTML docs file', () => {
+      const item = createComponentItem({ size: { name: 'size', type: { name: 'string' } } });
+      const html = generateFullFileHtmlContentFromStory({ docsTemplate: { sections: ['examples', 'title'] } }, item);
+
+      expect(html).toMatch(/<h2>Examples<\/h2>[\s\S]*<h1>Components\/Button<\/h1>/);
+      expect(html).not.toContain('<h2>Props</h2>');
+
+      const accordion = storybookStoreItems[2]!;
+      expect(generateFullFileHtmlContentFromStory({ tokenBudget: 3000 }, accordion)).toContain(
+        '9 more examples were omitted to fit the token budget',
+      );
+    });
   });
 
   describe('generateSummaryContent', () => {
@@ -777,8 +1091,13 @@ describe('generate-llms-docs', () => {
 
         Fluent UI React is a library of React components that implement Microsoft's Fluent Design System.
 
+        ## Concepts
+
         - [Concepts/Introduction](https://react.fluentui.dev/llms/concepts-introduction.txt)
         - [Concepts/Developer/Quick Start](https://react.fluentui.dev/llms/concepts-developer-quick-start.txt)
+
+        ## Components
+
         - [Components/Accordion](https://react.fluentui.dev/llms/components-accordion.txt): An accordion allows users to toggle the display of content by expanding or collapsing sections.
 
         ## Optional
@@ -789,6 +1108,177 @@ describe('generate-llms-docs', () => {
     });
   });
 
+  describe('groupSummaryItems', () => {
+    const groupPaths = (groups: ReturnType<typeof groupSummaryItems>) =>
+      groups.map(({ path, items, optional }) => ({ path, ids: items.map(item => item.meta.id), optional }));
+
+    it('should group items by title segments up to the configured depth', () => {
+      expect(groupPaths(groupSummaryItems({ summaryGroupDepth: 2 }, storybookStoreItems))).toEqual([
+        { path: ['Concepts'], ids: ['concepts-introduction'], optional: false },
+        { path: ['Concepts', 'Developer'], ids: ['concepts-developer-quick-start'], optional: false },
+        { path: ['Components'], ids: ['components-accordion'], optional: false },
+      ]);
+      expect(groupPaths(groupSummaryItems({ summaryGroupDepth: 0 }, storybookStoreItems))).toEqual([
+        {
+          path: [],
+          ids: ['concepts-introduction', 'concepts-developer-quick-start', 'components-accordion'],
+          optional: false,
+        },
+      ]);
+    });
+
+    it('should order sections and mark optional sections', () => {
+      const groups = groupSummaryItems(
+        { summarySectionOrder: ['Components'], summaryOptionalSections: ['Concepts'] },
+        storybookStoreItems,
+      );
+
+      expect(groupPaths(groups)).toEqual([
+        { path: ['Components'], ids: ['components-accordion'], optional: false },
+        { path: ['Concepts'], ids: ['concepts-introduction', 'concepts-developer-quick-start'], optional: true },
+      ]);
+    });
+  });
+
+  describe('generateSummaryContent with sections', () => {
+    it('should write nested headings and optional sections', () => {
+      const args = { ...argsWithRefs, summaryGroupDepth: 2, summaryOptionalSections: ['Components'] };
+      const summaryContent = generateSummaryContent(args, storybookStoreItems);
+
+      expect(summaryContent.filter(line => line.startsWith('#') || line.startsWith('- ['))).toEqual([
+        '# Fluent UI React v9',
+        '## Concepts',
+        expect.stringContaining('- [Concepts/Introduction]'),
+        '### Developer',
+        expect.stringContaining('- [Concepts/Developer/Quick Start]'),
+        '## Optional',
+        expect.stringContaining('- [Components/Accordion]'),
+        '- [Charts v9](https://charts.fluentui.dev/llms.txt)',
+      ]);
+    });
+
+    it('should write a heading for every group after titles of a different depth', () => {
+      const withTitles = (...titles: string[]) =>
+        titles.map((title, index) => {
+          const item = storybookStoreItems[index % storybookStoreItems.length]!;
+          return { ...item, meta: { ...item.meta, id: `item-${index}`, title } };
+        });
+      const getOutline = (args: typeof argsWithRefs, items: StorybookStoreItem[]) =>
+        generateSummaryContent(args, items)
+          .filter(line => line.startsWith('## ') || line.startsWith('### ') || line.startsWith('- ['))
+          .map(line => line.replace(/\]\(.*$/, ']'));
+
+      expect(
+        getOutline({ ...argsWithRefs, refs: [] }, withTitles('Components/Button', 'Introduction', 'Getting Started')),
+      ).toEqual(['## Components', '- [Components/Button]', '## Other', '- [Introduction]', '- [Getting Started]']);
+      expect(
+        getOutline(
+          { ...argsWithRefs, refs: [], summaryGroupDepth: 2 },
+          withTitles('Components/Form/Input', 'Components/Button', 'Components/Form/Select'),
+        ),
+      ).toEqual([
+        '## Components',
+        '### Form',
+        '- [Components/Form/Input]',
+        '- [Components/Form/Select]',
+        '## Components',
+        '- [Components/Button]',
+      ]);
+    });
+  });
+
+  describe('generateFullSummaryContent', () => {
+    it('should concatenate full docs of all items in summary order', () => {
+      const args = { ...argsWithRefs, fullSummaryMaxSize: 0 };
+      const content = generateFullSummaryContent(args, storybookStoreItems).join('\n');
+
+      expect(content.startsWith('# Fluent UI React v9\n\n> Fluent UI React is a library')).toBe(true);
+      expect(content).toContain(
+        '---\ntitle: Concepts/Introduction\nurl: https://react.fluentui.dev/llms/concepts-introduction.txt\n---',
+      );
+      expect(content).toContain('## Install');
+      expect(content).toContain('# Components/Accordion\n\nAn accordion allows users');
+
+      const sectionTitles = content.match(/^title: .*$/gm);
+      expect(sectionTitles).toEqual([
+        'title: Concepts/Introduction',
+        'title: Concepts/Developer/Quick Start',
+        'title: Components/Accordion',
+      ]);
+    });
+
+    it('should list sections exceeding the size limit as links', () => {
+      const args = { ...argsWithRefs, fullSummaryMaxSize: 2000 };
+      const content = generateFullSummaryContent(args, storybookStoreItems).join('\n');
+
+      expect(Buffer.byteLength(content)).toBeLessThan(3000);
+      expect(content).toContain('title: Concepts/Introduction');
+      expect(content).not.toContain('title: Components/Accordion');
+      expect(content).toContain('> **Note:** 2 more sections were omitted to fit the size limit:');
+      expect(content).toContain('- [Components/Accordion](https://react.fluentui.dev/llms/components-accordion.txt)');
+    });
+  });
+
+  describe('generateBudgetedFileContent', () => {
+    const accordion = storybookStoreItems[2]!;
+
+    it('should not trim content without a budget', () => {
+      const { content, tokens, exceedsBudget } = generateBudgetedFileContent({}, accordion);
+
+      expect(content).toEqual(generateFullFileContentFromStory(accordion));
+      expect(tokens).toBe(5587);
+      expect(exceedsBudget).toBe(false);
+    });
+
+    it('should drop examples beyond the limit first', () => {
+      const { content, tokens, exceedsBudget } = generateBudgetedFileContent({ tokenBudget: 3000 }, accordion);
+      const text = content.join('\n');
+
+      expect(tokens).toBeLessThanOrEqual(3000);
+      expect(exceedsBudget).toBe(false);
+      expect(text.match(/^```tsx$/gm)).toHaveLength(3);
+      expect(text).toContain('> **Note:** 9 more examples were omitted to fit the token budget:');
+      expect(text).toContain('#### Props');
+    });
+
+    it('should drop subcomponent props next', () => {
+      const { content, exceedsBudget } = generateBudgetedFileContent(
+        { tokenBudget: 2000, tokenBudgetMaxExamples: 3 },
+        accordion,
+      );
+
+      expect(exceedsBudget).toBe(false);
+      expect(content).toContain('### AccordionItem');
+      expect(content).not.toContain('#### Props');
+    });
+
+    it('should report content still exceeding the budget', () => {
+      const { tokens, exceedsBudget } = generateBudgetedFileContent({ tokenBudget: 500 }, accordion);
+
+      expect(tokens).toBeGreaterThan(500);
+      expect(exceedsBudget).toBe(true);
+    });
+
+    it('should use a custom tokenizer', () => {
+      const { tokens } = generateBudgetedFileContent({ tokenizer: text => text.length }, accordion);
+
+      expect(tokens).toBe(generateFullFileContentFromStory(accordion).join('\n').length);
+    });
+  });
+
+  describe('generateSummaryContent with token counts', () => {
+    it('should append token counts to the entries', () => {
+      const summary = generateSummaryContent({ ...argsWithRefs, tokenCounts: true }, storybookStoreItems);
+
+      expect(summary).toContain(
+        '- [Concepts/Introduction](https://react.fluentui.dev/llms/concepts-introduction.txt): (~350 tokens)',
+      );
+      expect(summary).toContain(
+        '- [Components/Accordion](https://react.fluentui.dev/llms/components-accordion.txt): An accordion allows users to toggle the display of content by expanding or collapsing sections. (~5,587 tokens)',
+      );
+    });
+  });
+
   describe('generateSitemapContent', () => {
     it('should generate sitemap content', () => {
       const sitemapContent = generateSitemapContent(argsWithRefs, storybookStoreItems);
@@ -819,4 +1309,29 @@ describe('generate-llms-docs', () => {
       expect(sitemapContent).toContain('<priority>0.7</priority>'); // .html files
     });
   });
+
+  describe('runWithConcurrency', () => {
+    it('should keep input order regardless of completion order', async () => {
+      const delays = [30, 10, 20, 0];
+      const results = await runWithConcurrency(delays, 2, async (delay, index) => {
+        await new Promise(resolve => setTimeout(resolve, delay));
+        return index;
+      });
+
+      expect(results).toEqual([0, 1, 2, 3]);
+    });
+
+    it('should not exceed the concurrency limit', async () => {
+      let pending = 0;
+      let maxPending = 0;
+      await runWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+        pending++;
+        maxPending = Math.max(maxPending, pending);
+        await new Promise(resolve => setTimeout(resolve, 5));
+        pending--;
+      });
+
+      expect(maxPending).toBe(3);
+    });
+  });
 });
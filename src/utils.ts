@@ -1,12 +1,37 @@
-import { mkdir, rm, writeFile, readFile } from 'node:fs/promises';
+import { rm, readFile } from 'node:fs/promises';
 import { join, resolve, extname } from 'node:path';
 import { existsSync } from 'node:fs';
 
-import { type BrowserContext, type Page, chromium } from 'playwright';
+import { type BrowserContext, chromium } from 'playwright';
 import Turndown from 'turndown';
 import { strikethrough, tables, taskListItems } from 'turndown-plugin-gfm';
 
-import type { Args, StorybookComponentProp, StorybookComponent, StorybookStoreItem } from './types';
+import { readCache, restoreMDXContents, storeMDXContents, writeCache } from './cache';
+import { defaultConfig, getDocsPath, resolveConfig } from './config';
+import { escapeHtml, escapeUrl, escapeXml } from './escape';
+import { filterStoreItems, globToRegExp } from './filter';
+import { generateImportStatement, getImportSource } from './imports';
+import { renderMarkdown } from './markdown';
+import { stringifyPropType } from './prop-types';
+import { extractStorybookDataStatic } from './static-extract';
+import { formatTokenCount } from './tokens';
+import { getDocsFileUrl, getItemDocsUrl, getOutputFileUrl, getRefSummaryUrl, resolveDocsLinkFormat } from './urls';
+import type {
+  Args,
+  Diagnostic,
+  DocsCustomSection,
+  DocsLinkFormat,
+  DocsSectionName,
+  DocsTemplate,
+  DocsTemplateFunction,
+  StorybookArgType,
+  StorybookArgTypes,
+  StorybookArgs,
+  StorybookComponentProp,
+  StorybookComponent,
+  StorybookStoreItem,
+  StorybookStoreItemStory,
+} from './types';
 
 /**
  * Get content type based on file extension
@@ -33,10 +58,10 @@ function getContentType(ext: string): string {
 }
 
 /**
- * Sets up static file serving using Playwright's page.route
+ * Sets up static file serving using Playwright's `context.route`, shared by all pages of the context.
  */
-async function setupStaticRouting(page: Page, distPath: string) {
-  await page.route('**/*', async route => {
+async function setupStaticRouting(context: BrowserContext, distPath: string) {
+  await context.route('**/*', async route => {
     const url = new URL(route.request().url());
     let filePath = url.pathname;
 
@@ -87,59 +112,234 @@ async function setupStaticRouting(page: Page, distPath: string) {
 /**
  * Extracts data for all stories, including `MDX` stories.
  * Now uses Playwright routing instead of Express server.
+ *
+ * With `extractMode: 'static'` or `'auto'`, stories are read from the build's `index.json`/`stories.json` instead.
+ * In `'auto'` mode the browser is only launched to render MDX pages, or as a fallback when the build has no index.
+ *
+ * Items are filtered by `include`/`exclude`/`tags` before MDX pages are rendered, so all writers see the same items.
+ *
+ * Non-fatal problems (skipped items, failed MDX pages) are pushed to `warnings`.
  */
-export async function extractStorybookData({ distPath }: Args): Promise<StorybookStoreItem[]> {
+export async function extractStorybookData(args: Args, warnings: Diagnostic[] = []): Promise<StorybookStoreItem[]> {
+  const config = resolveConfig(args);
+  const { distPath, extractMode, include, exclude, tags, cache, dryRun, ...renderOptions } = config;
+  const docsPath = getDocsPath(config);
+
+  if (extractMode !== 'browser') {
+    const staticStoreItems = await extractStorybookDataStatic(distPath, warnings);
+
+    if (staticStoreItems) {
+      const storeItems = filterStoreItems(staticStoreItems, { include, exclude, tags });
+
+      if (extractMode === 'auto' && storeItems.some(isMDXItem)) {
+        await extractMDXContentsWithCache(storeItems, { distPath, docsPath, cache, dryRun }, async pendingItems => {
+          if (pendingItems.some(isMDXItem)) {
+            await withBrowserContext(distPath, context =>
+              extractMDXContents(pendingItems, context, renderOptions, warnings),
+            );
+          }
+        });
+      } else if (storeItems.some(isMDXItem)) {
+        console.log('ℹ️ MDX pages have no content in static extract mode, use "auto" mode to render them.');
+      }
+
+      return storeItems;
+    }
+
+    if (extractMode === 'static') {
+      throw new Error(`Unable to find index.json or stories.json in ${distPath}`);
+    }
+
+    console.log(`ℹ️ No story index found in ${distPath}, falling back to browser extraction.`);
+  }
+
+  return withBrowserContext(distPath, async context => {
+    // Extract all stories from Storybook store, without the filtered out ones
+    const storeItems = filterStoreItems(await extractAllStoriesFromStorybook(context), { include, exclude, tags });
+
+    // Extract content for all MDX pages
+    await extractMDXContentsWithCache(storeItems, { distPath, docsPath, cache, dryRun }, pendingItems =>
+      extractMDXContents(pendingItems, context, renderOptions, warnings),
+    );
+
+    console.log(`✔️ Extracted ${storeItems.length} stories from Storybook store.`);
+
+    return storeItems;
+  });
+}
+
+/**
+ * Launches a browser and runs `callback` with a fresh context, closing the browser afterwards.
+ */
+async function withBrowserContext<T>(distPath: string, callback: (context: BrowserContext) => Promise<T>) {
   console.log(`▶️ Setting up Playwright with static file routing...`);
 
   const browser = await chromium.launch();
   const context = await browser.newContext({ bypassCSP: true });
 
   try {
+    await setupStaticRouting(context, distPath);
     console.log(`✔️ Static file routing configured for ${distPath}`);
 
-    // Extract all stories from Storybook store
-    const storeItems = await extractAllStoriesFromStorybook(context, distPath);
+    return await callback(context);
+  } finally {
+    if (browser) {
+      await browser.close();
+    }
+  }
+}
+
+/**
+ * Checks if a store item is an `MDX` page, i.e. all its stories are docs only.
+ */
+export function isMDXItem(item: StorybookStoreItem) {
+  const stories = Object.values(item.stories);
+  return stories.length > 0 && stories.every(story => story.parameters?.docsOnly);
+}
 
-    // Extract content for all MDX pages
-    console.log(`Processing ${storeItems.length} store items...`);
-    for (const item of storeItems) {
-      if (!item || !item.stories) {
-        console.warn('Skipping invalid item:', item);
-        continue;
-      }
-      const stories = Object.values(item.stories);
+/**
+ * Adds the docs-only story of an `MDX` page listed in the store without stories, its content is rendered like the
+ * one of other `MDX` pages. Returns the added story, or `undefined` if the item has stories or is not an `MDX` file.
+ */
+export function addMDXPageStory(item: StorybookStoreItem): StorybookStoreItemStory | undefined {
+  if (Object.keys(item.stories).length > 0 || !item.meta.parameters.fileName.endsWith('.mdx')) {
+    return undefined;
+  }
 
-      if (stories.length > 0) {
-        for (const story of stories) {
-          if (story.parameters?.docsOnly) {
-            const pageUrl = `http://localhost/iframe.html?id=${story.id.replace('--page', '--docs')}`;
-            story.parameters.fullSource = await extractMDXStoryContentWithBrowser(pageUrl, context, distPath);
-          }
-        }
-      } else if (item.meta.parameters.fileName.endsWith('.mdx')) {
-        const pageUrl = `http://localhost/iframe.html?id=${item.meta.id.replace('--page', '--docs')}`;
-        item.stories[`${item.meta.id}`] = {
-          id: item.meta.id,
-          name: item.meta.title,
-          parameters: {
-            fullSource: await extractMDXStoryContentWithBrowser(pageUrl, context, distPath),
-            docsOnly: true,
-            docs: {},
-          },
-        };
+  const story: StorybookStoreItemStory = {
+    id: item.meta.id,
+    name: item.meta.title,
+    parameters: {
+      docsOnly: true,
+      docs: {},
+    },
+  };
+  item.stories[item.meta.id] = story;
+  return story;
+}
+
+/**
+ * Renders the `MDX` pages of `storeItems` with `render`. With `cache`, pages unchanged since the previous run are
+ * restored from the cache instead and left out of the items passed to `render`. The cache is updated afterwards,
+ * unless in `dryRun`.
+ */
+async function extractMDXContentsWithCache(
+  storeItems: StorybookStoreItem[],
+  { distPath, docsPath, cache, dryRun }: { distPath: string; docsPath: string; cache: boolean; dryRun: boolean },
+  render: (pendingItems: StorybookStoreItem[]) => Promise<void>,
+) {
+  if (!cache) {
+    await render(storeItems);
+    return;
+  }
+
+  const llmsCache = await readCache(docsPath);
+  // MDX pages without stories get their docs-only story before hashing, like when rendering them
+  storeItems.forEach(item => item?.meta && item.stories && addMDXPageStory(item));
+  const mdxItems = storeItems.filter(item => item?.meta && item.stories && isMDXItem(item));
+  const { pending, inputHashes } = await restoreMDXContents(distPath, mdxItems, llmsCache);
+
+  await render(storeItems.filter(item => !mdxItems.includes(item) || pending.includes(item)));
+
+  if (!dryRun) {
+    storeMDXContents(mdxItems, inputHashes, llmsCache);
+    await writeCache(docsPath, llmsCache);
+  }
+}
+
+/**
+ * Options for rendering `MDX` pages in the browser.
+ */
+type MDXRenderOptions = Pick<
+  Required<Args>,
+  'concurrency' | 'renderTimeout' | 'renderRetries' | 'renderRetryDelay' | 'renderWaitFor'
+>;
+
+/**
+ * Renders all `MDX` pages in the browser and stores their content as `fullSource` of the docs-only stories.
+ * Up to `concurrency` pages are rendered at once, results are assigned in store order regardless of completion order.
+ * Pages that still fail after all retries are listed in a final report and pushed to `warnings`.
+ */
+async function extractMDXContents(
+  storeItems: StorybookStoreItem[],
+  context: BrowserContext,
+  options: MDXRenderOptions,
+  warnings: Diagnostic[],
+) {
+  const tasks: { url: string; itemId: string; story: StorybookStoreItemStory }[] = [];
+
+  console.log(`Processing ${storeItems.length} store items...`);
+  for (const item of storeItems) {
+    if (!item || !item.stories) {
+      console.warn('Skipping invalid item:', item);
+      warnings.push({ code: 'invalid-store-item', message: `Skipped invalid store item: ${JSON.stringify(item)}` });
+      continue;
+    }
+    addMDXPageStory(item);
+
+    for (const story of Object.values(item.stories)) {
+      if (story.parameters?.docsOnly) {
+        tasks.push({
+          url: `http://localhost/iframe.html?id=${story.id.replace('--page', '--docs')}`,
+          itemId: item.meta.id,
+          story,
+        });
       }
     }
+  }
 
-    console.log(`✔️ Extracted ${storeItems.length} stories from Storybook store.`);
+  const results = await runWithConcurrency(tasks, options.concurrency, ({ url }) =>
+    extractMDXStoryContentWithRetries(url, context, options),
+  );
 
-    return storeItems;
-  } finally {
-    if (browser) {
-      await browser.close();
+  const failures: Diagnostic[] = [];
+  tasks.forEach(({ url, itemId, story }, index) => {
+    const result = results[index];
+    story.parameters.fullSource = result?.content ?? '';
+
+    if (result?.error) {
+      failures.push({
+        code: 'empty-mdx',
+        message: `Failed to extract MDX content: ${url} (${result.attempts} attempts): ${result.error}`,
+        itemId,
+      });
+    }
+  });
+
+  if (failures.length > 0) {
+    console.error(`❌ ${failures.length} of ${tasks.length} MDX pages failed to render:`);
+    for (const failure of failures) {
+      console.error(`  - ${failure.message}`);
     }
+    warnings.push(...failures);
   }
 }
 
+/**
+ * Runs `callback` for all `items` with at most `concurrency` callbacks pending at once.
+ * Results are returned in the order of `items`.
+ */
+export async function runWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  callback: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await callback(items[index] as T, index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
 /**
  * Storybook Client API store, contains methods to cache CSF files and cached items.
  */
@@ -182,12 +382,9 @@ interface StorybookGlobals extends Window {
 /**
  * Extracts all stories from Storybook Client API store.
  */
-async function extractAllStoriesFromStorybook(context: BrowserContext, distPath: string) {
+async function extractAllStoriesFromStorybook(context: BrowserContext) {
   const page = await context.newPage();
 
-  // Set up static file routing for this page
-  await setupStaticRouting(page, distPath);
-
   await page.goto(`http://localhost/iframe.html`);
 
   // Wait for the Storybook Client API to be loaded
@@ -224,6 +421,35 @@ async function extractAllStoriesFromStorybook(context: BrowserContext, distPath:
       throw new Error('Unable to find Storybook story store');
     };
 
+    /**
+     * Copies args and argTypes into serializable values, functions are left out and React elements are replaced by
+     * their JSX tag, e.g. `<Icon />`.
+     *
+     * @param value Arg value, argTypes or args
+     * @param depth Nesting depth, deeper values are left out
+     */
+    const toSerializable = (value: unknown, depth = 0): unknown => {
+      if (typeof value === 'function' || typeof value === 'symbol' || depth > 5) {
+        return undefined;
+      }
+      if (!value || typeof value !== 'object') {
+        return value;
+      }
+      if ('$$typeof' in value) {
+        const type = (value as { type?: string | { displayName?: string; name?: string } }).type;
+        const name = typeof type === 'string' ? type : type?.displayName || type?.name || 'Component';
+        return `<${name} />`;
+      }
+      if (Array.isArray(value)) {
+        return value.map(item => toSerializable(item, depth + 1) ?? null);
+      }
+      return Object.fromEntries(
+        Object.entries(value)
+          .map(([key, item]) => [key, toSerializable(item, depth + 1)])
+          .filter(([, item]) => item !== undefined),
+      );
+    };
+
     const preview = (window as StorybookGlobals).__STORYBOOK_PREVIEW__;
     
     if (!preview) {
@@ -241,11 +467,14 @@ async function extractAllStoriesFromStorybook(context: BrowserContext, distPath:
       // Convert individual stories to StorybookStoreItem format
       const storyItems = Object.values(extracted) as any[];
       const groupedByComponent = new Map<string, StorybookStoreItem>();
+      // CSF files are cached by `extract()`, their meta holds the component-level args
+      const csfFiles = (preview.storyStoreValue ?? preview.storyStore)?.cachedCSFFiles ?? {};
       
       for (const story of storyItems) {
         const componentId = story.componentId || story.id?.split('--')[0] || 'unknown';
         
         if (!groupedByComponent.has(componentId)) {
+          const csfFile = csfFiles[story.importPath ?? story.parameters?.fileName ?? ''];
           // Create meta object from story data
           groupedByComponent.set(componentId, {
             meta: {
@@ -255,18 +484,46 @@ async function extractAllStoriesFromStorybook(context: BrowserContext, distPath:
                 fileName: story.parameters?.fileName || '',
                 docs: story.parameters?.docs || {},
               },
+              argTypes: toSerializable(story.argTypes ?? {}) as StorybookArgTypes,
+              ...(csfFile?.meta.args && { args: toSerializable(csfFile.meta.args) as StorybookArgs }),
             },
             stories: {},
           });
         }
         
         const item = groupedByComponent.get(componentId)!;
+        const initialArgs = toSerializable(story.initialArgs ?? story.args ?? {}) as StorybookArgs;
         item.stories[story.id] = {
           id: story.id,
           name: story.name || story.story,
+          tags: story.tags || [],
+          args: initialArgs,
+          initialArgs,
           parameters: story.parameters || {},
         };
       }
+
+      // Initial args include the component-level args, keep only the args set by the stories like in CSF files.
+      // Without CSF files, the component-level args are approximated by the args all stories share.
+      for (const { meta, stories } of groupedByComponent.values()) {
+        const storyList = Object.values(stories);
+        const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+        const metaArgs =
+          meta.args ??
+          (storyList.length > 1
+            ? Object.fromEntries(
+                Object.entries(storyList[0]?.initialArgs ?? {}).filter(([name, value]) =>
+                  storyList.every(({ initialArgs = {} }) => name in initialArgs && sameValue(initialArgs[name], value)),
+                ),
+              )
+            : {});
+        meta.args = metaArgs;
+        for (const story of storyList) {
+          story.args = Object.fromEntries(
+            Object.entries(story.initialArgs ?? {}).filter(([name, value]) => !sameValue(value, metaArgs[name])),
+          );
+        }
+      }
       
       console.log('Converted to StorybookStoreItem format, component count:', groupedByComponent.size);
       return Array.from(groupedByComponent.values());
@@ -290,7 +547,23 @@ async function extractAllStoriesFromStorybook(context: BrowserContext, distPath:
     // Check different possible properties for cached files
     if (storyStore.cachedCSFFiles) {
       console.log('Found cachedCSFFiles, count:', Object.keys(storyStore.cachedCSFFiles).length);
-      return Object.values(storyStore.cachedCSFFiles);
+      return Object.values(storyStore.cachedCSFFiles).map(({ meta, stories }) => ({
+        meta: {
+          ...meta,
+          argTypes: toSerializable(meta.argTypes ?? {}) as StorybookArgTypes,
+          args: toSerializable(meta.args ?? {}) as StorybookArgs,
+        },
+        stories: Object.fromEntries(
+          Object.entries(stories).map(([id, story]) => [
+            id,
+            {
+              ...story,
+              args: toSerializable(story.args ?? {}) as StorybookArgs,
+              initialArgs: toSerializable(story.initialArgs ?? {}) as StorybookArgs,
+            },
+          ]),
+        ),
+      }));
     }
 
     // Try alternative property names for different Storybook versions
@@ -313,25 +586,58 @@ async function extractAllStoriesFromStorybook(context: BrowserContext, distPath:
   return stories;
 }
 
+/**
+ * Extracts `MDX` story content from a given URL using a browser, retrying with exponential backoff.
+ * Empty content counts as a failure, since it usually means the page did not finish rendering.
+ */
+async function extractMDXStoryContentWithRetries(url: string, context: BrowserContext, options: MDXRenderOptions) {
+  let error = '';
+
+  for (let attempt = 1; attempt <= options.renderRetries + 1; attempt++) {
+    if (attempt > 1) {
+      await new Promise(resolve => setTimeout(resolve, options.renderRetryDelay * 2 ** (attempt - 2)));
+      console.log(`Retrying (${attempt - 1}/${options.renderRetries}): "${url}"`);
+    }
+
+    try {
+      const content = await extractMDXStoryContentWithBrowser(url, context, options);
+      if (content.trim()) {
+        return { content, attempts: attempt };
+      }
+      error = 'Rendered docs content is empty';
+    } catch (reason) {
+      error = reason instanceof Error ? reason.message.split('\n')[0] ?? reason.message : String(reason);
+    }
+  }
+
+  return { content: '', attempts: options.renderRetries + 1, error };
+}
+
 /**
  * Extracts `MDX` story content from a given URL using a browser.
  */
-async function extractMDXStoryContentWithBrowser(url: string, context: BrowserContext, distPath: string) {
+async function extractMDXStoryContentWithBrowser(
+  url: string,
+  context: BrowserContext,
+  { renderTimeout, renderWaitFor }: MDXRenderOptions,
+) {
+  const page = await context.newPage();
+
   try {
-    const page = await context.newPage();
+    console.log(`Extracting: "${url}"`);
+    await page.goto(url, { timeout: renderTimeout });
 
-    // Set up routing for this page
-    await setupStaticRouting(page, distPath);
+    if (renderWaitFor === 'networkidle') {
+      await page.waitForLoadState('networkidle', { timeout: renderTimeout });
+    } else if (renderWaitFor !== 'selector') {
+      await page.waitForFunction(renderWaitFor, undefined, { timeout: renderTimeout });
+    }
 
-    console.log(`Extracting: "${url}"`);
-    await page.goto(url);
-    await page.waitForSelector('.sbdocs-content', { state: 'attached', timeout: 2000 });
+    await page.waitForSelector('.sbdocs-content', { state: 'attached', timeout: renderTimeout });
     const html = await page.locator('.sbdocs-content').innerHTML();
-    await page.close();
     return convertHtmlToMarkdown(html);
-  } catch (error) {
-    console.error(`❌ Failed to extract: ${url}`, error);
-    return '';
+  } finally {
+    await page.close();
   }
 }
 
@@ -412,59 +718,68 @@ export async function convertHtmlToMarkdown(htmlContent: string) {
 }
 
 /**
- * Writes the summary file for all store items.
- */
-export async function writeSummaryFile(args: Required<Args>, data: StorybookStoreItem[]) {
-  const summaryContent = generateSummaryContent(args, data);
-  await writeFile(join(args.distPath, 'llms.txt'), summaryContent.join('\n'));
-  console.log(`✅ LLMs docs summary written to ${join(args.distPath, 'llms.txt')}`);
-}
-
-/**
- * Writes HTML summary and sitemap files after component files are written.
- * This ensures they are not deleted when the llms directory is cleaned.
+ * Names of the docs link formats in the `llms.txt` note.
  */
-export async function writeAdditionalFiles(args: Required<Args>, data: StorybookStoreItem[]) {
-  // Generate HTML summary for better indexing
-  await writeSummaryHtmlFile(args, data);
-  
-  // Generate sitemap.xml for better SEO and indexing
-  await writeSitemapFile(args, data);
-}
+const DOCS_LINK_FORMAT_NAMES: Record<DocsLinkFormat, string> = {
+  txt: 'plain text (.txt)',
+  md: 'Markdown (.md)',
+  'html.md': 'Markdown (.html.md)',
+  html: 'HTML (.html)',
+};
 
 /**
  * Generates the summary file content from the storeItems array.
  */
-export function generateSummaryContent(
-  { summaryTitle, summaryDescription, summaryBaseUrl, refs }: Required<Args>,
-  data: StorybookStoreItem[],
-) {
+export function generateSummaryContent(args: Required<Args>, data: StorybookStoreItem[]) {
+  const { summaryTitle, summaryDescription, refs, summaryLinkFormat = defaultConfig.summaryLinkFormat } = args;
+  const linkFormatName = DOCS_LINK_FORMAT_NAMES[resolveDocsLinkFormat(args, summaryLinkFormat)];
+
   // Initialize summary array with header content
   const summary: string[] = [
     `# ${summaryTitle}`,
     '',
-    '> **Note:** This is a summary overview using the LLMs.txt format (https://llmstxt.org/). Each section links to its full documentation file in plain text (.txt) format. Click any link below to view the detailed documentation for that section.',
+    `> **Note:** This is a summary overview using the LLMs.txt format (https://llmstxt.org/). Each section links to its full documentation file in ${linkFormatName} format. Click any link below to view the detailed documentation for that section.`,
     '',
     summaryDescription,
     '',
   ];
 
-  // Adds links to all components/pages
-  for (const item of data) {
-    let description = item.meta.parameters?.docs?.description?.component || '';
-    if (description) {
-      description = `: ${description.split('\n')[0]}`;
+  const groups = groupSummaryItems(args, data);
+
+  // Adds links to all components/pages, under a heading per title segment
+  let previousPath: string[] | undefined;
+  for (const group of groups.filter(({ optional }) => !optional)) {
+    const headings = getSummaryGroupHeadings(group.path, previousPath);
+    if (group.path.length === 0 && previousPath && previousPath.length > 0) {
+      // Items without a section after sectioned ones must not be listed under the previous heading
+      headings.push({ segment: SUMMARY_ROOT_SECTION, depth: 0 });
+    }
+    for (const { segment, depth } of headings) {
+      if (summary[summary.length - 1] !== '') {
+        summary.push('');
+      }
+      summary.push(`${'#'.repeat(depth + 2)} ${segment}`, '');
     }
-    summary.push(`- [${item.meta.title}](${summaryBaseUrl}/llms/${item.meta.id}.html)${description}`);
+    previousPath = group.path;
+
+    summary.push(...group.items.map(item => generateSummaryEntry(args, item)));
+  }
+
+  const optionalItems = groups.filter(({ optional }) => optional).flatMap(({ items }) => items);
+  if (optionalItems.length > 0) {
+    summary.push('', '## Optional', '');
+    summary.push(...optionalItems.map(item => generateSummaryEntry(args, item)));
   }
 
   // Adds links to all composed Storybook
   if (refs && refs.length > 0) {
-    summary.push('');
-    summary.push('## Optional');
+    if (optionalItems.length === 0) {
+      summary.push('');
+      summary.push('## Optional');
+    }
     summary.push('');
     for (const ref of refs) {
-      summary.push(`- [${ref.title}](${ref.url.replace(/\/$/, '')}/llms.txt)`);
+      summary.push(`- [${ref.title}](${getRefSummaryUrl(ref)})`);
     }
     summary.push('');
   }
@@ -473,35 +788,164 @@ export function generateSummaryContent(
 }
 
 /**
- * Writes the HTML summary file for all store items.
- * This provides better indexing support for Cursor and other tools.
+ * Generates a single `llms.txt` entry: a link to the item docs followed by the first line of its description
+ * and, with `tokenCounts`, the approximate token count of the docs file.
  */
-export async function writeSummaryHtmlFile(args: Required<Args>, data: StorybookStoreItem[]) {
-  const llmsDir = join(args.distPath, 'llms');
-  await mkdir(llmsDir, { recursive: true });
-  const htmlContent = generateSummaryHtmlContent(args, data);
-  await writeFile(join(llmsDir, 'index.html'), htmlContent);
-  console.log(`✅ LLMs docs HTML summary written to ${join(llmsDir, 'index.html')}`);
+function generateSummaryEntry(args: Required<Args>, item: StorybookStoreItem) {
+  const notes = [item.meta.parameters?.docs?.description?.component?.split('\n')[0] ?? ''];
+  if (args.tokenCounts) {
+    notes.push(`(${formatTokenCount(generateBudgetedFileContent(args, item).tokens)})`);
+  }
+  const description = notes.filter(Boolean).join(' ');
+  const url = getItemDocsUrl(args, item.meta.id, args.summaryLinkFormat ?? defaultConfig.summaryLinkFormat);
+  const link = `- [${item.meta.title}](${url})`;
+  return description ? `${link}: ${description}` : link;
 }
 
 /**
- * Generates the HTML summary file content from the storeItems array.
+ * Heading of the summary section of items whose title has a single segment, when they follow other sections.
+ */
+const SUMMARY_ROOT_SECTION = 'Other';
+
+/**
+ * Returns the headings a summary group starts with after the group of `previousPath`: one per title segment from the
+ * first one that differs. A group whose path is a prefix of the previous one repeats its last heading, so that its
+ * items are not listed under the previous sub-section.
+ */
+function getSummaryGroupHeadings(path: string[], previousPath: string[] | undefined) {
+  if (previousPath && path.join('/') === previousPath.join('/')) {
+    return [];
+  }
+  const start = path.findIndex((segment, depth) => segment !== previousPath?.[depth]);
+  return path.map((segment, depth) => ({ segment, depth })).slice(start === -1 ? path.length - 1 : start);
+}
+
+/**
+ * Group of summary items sharing the same title path, e.g. `['Concepts', 'Developer']`.
+ */
+export type SummaryGroup = {
+  path: string[];
+  items: StorybookStoreItem[];
+  optional: boolean;
+};
+
+/**
+ * Groups store items by the first `summaryGroupDepth` segments of their title, the last segment is never used.
+ * Groups are ordered by `summarySectionOrder` (top-level sections), then by first appearance.
+ * Top-level sections listed in `summaryOptionalSections` are marked as optional.
  */
-export function generateSummaryHtmlContent(
-  { summaryTitle, summaryDescription, summaryBaseUrl, refs }: Required<Args>,
+export function groupSummaryItems(
+  {
+    summaryGroupDepth = defaultConfig.summaryGroupDepth,
+    summarySectionOrder = defaultConfig.summarySectionOrder,
+    summaryOptionalSections = defaultConfig.summaryOptionalSections,
+  }: Pick<Args, 'summaryGroupDepth' | 'summarySectionOrder' | 'summaryOptionalSections'>,
   data: StorybookStoreItem[],
-): string {
+): SummaryGroup[] {
+  const groups = new Map<string, SummaryGroup>();
+
+  for (const item of data) {
+    const segments = item.meta.title.split('/').map(segment => segment.trim());
+    const path = segments.slice(0, Math.max(0, Math.min(summaryGroupDepth, segments.length - 1)));
+    const key = path.join('/');
+
+    let group = groups.get(key);
+    if (!group) {
+      group = { path, items: [], optional: summaryOptionalSections.includes(path[0] ?? '') };
+      groups.set(key, group);
+    }
+    group.items.push(item);
+  }
+
+  const sections = Array.from(new Set(Array.from(groups.values(), ({ path }) => path[0] ?? '')));
+  const getSectionRank = (section: string) => {
+    const index = summarySectionOrder.indexOf(section);
+    return index === -1 ? summarySectionOrder.length + sections.indexOf(section) : index;
+  };
+
+  // `Array.prototype.sort` is stable, groups of the same section keep their order of appearance
+  return Array.from(groups.values()).sort((a, b) => getSectionRank(a.path[0] ?? '') - getSectionRank(b.path[0] ?? ''));
+}
+
+/**
+ * Generates the `llms-full.txt` content: the full file content of every store item, in summary order.
+ * Each section starts with a separator block holding its title and source URL.
+ *
+ * With `fullSummaryMaxSize`, sections are added until the size (in bytes) would be exceeded,
+ * the remaining sections are listed in a trailing note instead.
+ */
+export function generateFullSummaryContent(args: Required<Args>, data: StorybookStoreItem[]) {
+  const {
+    summaryTitle,
+    summaryDescription,
+    fullSummaryMaxSize,
+    summaryLinkFormat = defaultConfig.summaryLinkFormat,
+  } = args;
+  const content: string[] = [`# ${summaryTitle}`, ''];
+  if (summaryDescription) {
+    content.push(`> ${summaryDescription}`, '');
+  }
+
+  let size = Buffer.byteLength(content.join('\n'));
+  const omitted: StorybookStoreItem[] = [];
+
+  const groups = groupSummaryItems(args, data);
+  const items = [...groups.filter(({ optional }) => !optional), ...groups.filter(({ optional }) => optional)].flatMap(
+    ({ items }) => items,
+  );
+
+  for (const item of items) {
+    const section = [
+      '---',
+      `title: ${item.meta.title}`,
+      `url: ${getItemDocsUrl(args, item.meta.id, args.summaryLinkFormat ?? defaultConfig.summaryLinkFormat)}`,
+      '---',
+      '',
+      ...generateBudgetedFileContent(args, item).content,
+      '',
+    ];
+    const sectionSize = Buffer.byteLength(`\n${section.join('\n')}`);
+
+    if (omitted.length > 0 || (fullSummaryMaxSize > 0 && size + sectionSize > fullSummaryMaxSize)) {
+      omitted.push(item);
+      continue;
+    }
+
+    content.push(...section);
+    size += sectionSize;
+  }
+
+  if (omitted.length > 0) {
+    content.push('---', '');
+    content.push(`> **Note:** ${omitted.length} more sections were omitted to fit the size limit:`, '');
+    for (const item of omitted) {
+      content.push(`- [${item.meta.title}](${getItemDocsUrl(args, item.meta.id, summaryLinkFormat)})`);
+    }
+    content.push('');
+  }
+
+  return content;
+}
+
+/**
+ * Generates the HTML summary file content from the storeItems array.
+ */
+export function generateSummaryHtmlContent(args: Required<Args>, data: StorybookStoreItem[]): string {
+  const { summaryTitle, summaryDescription, refs, indexLinkFormat = defaultConfig.indexLinkFormat } = args;
+  const linkFormatName = DOCS_LINK_FORMAT_NAMES[resolveDocsLinkFormat(args, indexLinkFormat)];
+
   const htmlParts: string[] = [
     '<!DOCTYPE html>',
     '<html lang="zh-CN">',
     '<head>',
     '  <meta charset="UTF-8">',
     '  <meta name="viewport" content="width=device-width, initial-scale=1.0">',
-    `  <title>${summaryTitle}</title>`,
+    `  <title>${escapeHtml(summaryTitle)}</title>`,
     '  <style>',
     '    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; max-width: 1200px; margin: 0 auto; padding: 20px; }',
     '    h1 { color: #2c3e50; border-bottom: 2px solid #3498db; padding-bottom: 10px; }',
     '    h2 { color: #34495e; margin-top: 30px; }',
+    '    h3, h4, h5, h6 { color: #34495e; margin-top: 20px; }',
     '    .note { background: #f8f9fa; border-left: 4px solid #3498db; padding: 15px; margin: 20px 0; }',
     '    .component-list { display: grid; grid-template-columns: repeat(auto-fill, minmax(300px, 1fr)); gap: 20px; margin: 20px 0; }',
     '    .component-card { border: 1px solid #ddd; border-radius: 8px; padding: 15px; background: #fff; transition: box-shadow 0.2s; }',
@@ -509,6 +953,7 @@ export function generateSummaryHtmlContent(
     '    .component-link { text-decoration: none; color: #2980b9; font-weight: 500; }',
     '    .component-link:hover { color: #3498db; }',
     '    .component-description { color: #666; margin-top: 5px; font-size: 0.9em; }',
+    '    .component-tokens { color: #999; margin-top: 5px; font-size: 0.8em; }',
     '    .refs-list { list-style: none; padding: 0; }',
     '    .refs-list li { background: #f1f8ff; border: 1px solid #c8e6ff; border-radius: 6px; padding: 10px; margin: 10px 0; }',
     '    .refs-list a { color: #0366d6; text-decoration: none; font-weight: 500; }',
@@ -516,45 +961,46 @@ export function generateSummaryHtmlContent(
     '  </style>',
     '</head>',
     '<body>',
-    `  <h1>${summaryTitle}</h1>`,
+    `  <h1>${escapeHtml(summaryTitle)}</h1>`,
     '  <div class="note">',
     '    <strong>注意：</strong> 这是使用 LLMs.txt 格式的摘要概览 (<a href="https://llmstxt.org/" target="_blank">https://llmstxt.org/</a>)。',
-    '    每个部分都链接到其纯文本格式 (.txt) 的完整文档文件。点击下面的任何链接查看该部分的详细文档。',
+    `    每个部分都链接到其 ${linkFormatName} 格式的完整文档文件。点击下面的任何链接查看该部分的详细文档。`,
     '  </div>',
   ];
 
   if (summaryDescription) {
-    htmlParts.push(`  <p>${summaryDescription}</p>`);
+    htmlParts.push(`  <p>${escapeHtml(summaryDescription)}</p>`);
   }
 
-  htmlParts.push('  <h2>组件文档</h2>');
-  htmlParts.push('  <div class="component-list">');
+  const groups = groupSummaryItems(args, data);
+  const optionalItems = groups.filter(({ optional }) => optional).flatMap(({ items }) => items);
 
-  // Add component cards
-  for (const item of data) {
-    const rawDescription = item.meta.parameters?.docs?.description?.component;
-    let description = '';
-    if (rawDescription) {
-      const firstLine = rawDescription.split('\n')[0];
-      description = firstLine || ''; // Handle potential undefined
+  // Add component cards, under a heading per title segment
+  let previousPath: string[] | undefined;
+  for (const group of groups.filter(({ optional }) => !optional)) {
+    if (group.path.length === 0) {
+      htmlParts.push('  <h2>组件文档</h2>');
     }
-    
-    htmlParts.push('    <div class="component-card">');
-    htmlParts.push(`      <a href="${summaryBaseUrl}/llms/${item.meta.id}.html" class="component-link" target="_blank">${item.meta.title}</a>`);
-    if (description) {
-      htmlParts.push(`      <div class="component-description">${description}</div>`);
+    for (const { segment, depth } of getSummaryGroupHeadings(group.path, previousPath)) {
+      htmlParts.push(`  <h${depth + 2}>${escapeHtml(segment)}</h${depth + 2}>`);
     }
-    htmlParts.push('    </div>');
+    previousPath = group.path;
+
+    htmlParts.push(...generateSummaryHtmlCards(args, group.items));
   }
 
-  htmlParts.push('  </div>');
+  if (optionalItems.length > 0) {
+    htmlParts.push('  <h2>Optional</h2>');
+    htmlParts.push(...generateSummaryHtmlCards(args, optionalItems));
+  }
 
   // Add composed Storybook references if any
   if (refs && refs.length > 0) {
     htmlParts.push('  <h2>相关 Storybook</h2>');
     htmlParts.push('  <ul class="refs-list">');
     for (const ref of refs) {
-      htmlParts.push(`    <li><a href="${ref.url.replace(/\/$/, '')}/llms.txt" target="_blank">${ref.title}</a></li>`);
+      const href = escapeUrl(getRefSummaryUrl(ref));
+      htmlParts.push(`    <li><a href="${href}" target="_blank">${escapeHtml(ref.title)}</a></li>`);
     }
     htmlParts.push('  </ul>');
   }
@@ -566,36 +1012,75 @@ export function generateSummaryHtmlContent(
 }
 
 /**
- * Writes full markdown files for all components from `storeItems`.
- * For MDX pages, render only `fullSource`. For others, render title, description, props, and examples.
- * Now generates both .txt and .html files.
+ * Generates the HTML summary cards for the given store items.
  */
-export async function writeFullDocsFiles({ distPath }: Required<Args>, data: StorybookStoreItem[]) {
-  const llmsDir = join(distPath, 'llms');
+function generateSummaryHtmlCards(args: Required<Args>, items: StorybookStoreItem[]) {
+  const htmlParts: string[] = ['  <div class="component-list">'];
 
-  // Clean up `llms` directory
-  await rm(llmsDir, { recursive: true, force: true });
-  await mkdir(llmsDir, { recursive: true });
+  for (const item of items) {
+    const rawDescription = item.meta.parameters?.docs?.description?.component;
+    let description = '';
+    if (rawDescription) {
+      const firstLine = rawDescription.split('\n')[0];
+      description = firstLine || ''; // Handle potential undefined
+    }
 
-  for (const item of data) {
-    // Generate .txt file (original format)
-    const txtFilePath = join(llmsDir, `${item.meta.id}.txt`);
-    const txtContent = generateFullFileContentFromStory(item);
-    await writeFile(txtFilePath, txtContent.join('\n'));
-    
-    // Generate .html file (new format)
-    const htmlFilePath = join(llmsDir, `${item.meta.id}.html`);
-    const htmlContent = generateFullFileHtmlContentFromStory(item);
-    await writeFile(htmlFilePath, htmlContent);
+    htmlParts.push('    <div class="component-card">');
+    const url = getItemDocsUrl(args, item.meta.id, args.indexLinkFormat ?? defaultConfig.indexLinkFormat, 'docsDir');
+    const href = escapeUrl(url);
+    htmlParts.push(`      <a href="${href}" class="component-link" target="_blank">${escapeHtml(item.meta.title)}</a>`);
+    if (description) {
+      htmlParts.push(`      <div class="component-description">${escapeHtml(description)}</div>`);
+    }
+    if (args.tokenCounts) {
+      const { tokens } = generateBudgetedFileContent(args, item);
+      htmlParts.push(`      <div class="component-tokens">${formatTokenCount(tokens)}</div>`);
+    }
+    htmlParts.push('    </div>');
   }
+
+  htmlParts.push('  </div>');
+
+  return htmlParts;
 }
 
 /**
- * Generates the full HTML content for a given storybook story.
+ * Returns the names of the docs files of a component/page: one per `docsFormats` and the `.html` file.
  */
-export function generateFullFileHtmlContentFromStory(item: StorybookStoreItem): string {
-  const stories = Object.values(item.stories);
-  const isMDXPage = stories.every(s => s.parameters?.docsOnly);
+export function getItemDocsFiles({ docsFormats = defaultConfig.docsFormats }: Pick<Args, 'docsFormats'>, id: string) {
+  return [...docsFormats.map(format => `${id}.${format}`), `${id}.html`];
+}
+
+/**
+ * Name of the empty file marking a docs directory as created by this tool.
+ */
+export const DOCS_DIR_MARKER = '.storybook-llms-extractor';
+
+/**
+ * Removes the docs directory of a previous run. Refuses to remove a directory this tool did not create, i.e. without
+ * the `DOCS_DIR_MARKER` file, unless `force` is set, e.g. for a docs directory written before the marker existed.
+ */
+export async function removeDocsDir(docsPath: string, force = false) {
+  if (!existsSync(docsPath)) {
+    return;
+  }
+
+  if (!force && !existsSync(join(docsPath, DOCS_DIR_MARKER))) {
+    throw new Error(
+      `Refusing to clean up ${docsPath}: it was not created by storybook-llms-extractor. ` +
+        'Choose another --docsDir, remove the directory manually or use --force once if it holds docs written by an older version.',
+    );
+  }
+
+  await rm(docsPath, { recursive: true, force: true });
+}
+
+/**
+ * Generates the HTML docs file of a component/page: its budgeted Markdown content, see `generateBudgetedFileContent`,
+ * rendered to HTML. MDX pages, which have no title section, get the title as heading.
+ */
+export function generateFullFileHtmlContentFromStory(args: DocsContentArgs, item: StorybookStoreItem): string {
+  const content = generateBudgetedFileContent(args, item).content.join('\n');
 
   const htmlParts: string[] = [
     '<!DOCTYPE html>',
@@ -603,7 +1088,7 @@ export function generateFullFileHtmlContentFromStory(item: StorybookStoreItem):
     '<head>',
     '  <meta charset="UTF-8">',
     '  <meta name="viewport" content="width=device-width, initial-scale=1.0">',
-    `  <title>${item.meta.title}</title>`,
+    `  <title>${escapeHtml(item.meta.title)}</title>`,
     '  <style>',
     '    body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; line-height: 1.6; max-width: 1200px; margin: 0 auto; padding: 20px; color: #333; }',
     '    h1 { color: #2c3e50; border-bottom: 2px solid #3498db; padding-bottom: 10px; }',
@@ -612,267 +1097,312 @@ export function generateFullFileHtmlContentFromStory(item: StorybookStoreItem):
     '    h4 { color: #34495e; margin-top: 20px; }',
     '    table { border-collapse: collapse; width: 100%; margin: 20px 0; }',
     '    th, td { border: 1px solid #ddd; padding: 12px; text-align: left; }',
-    '    th { background-color: #f8f9fa; font-weight: 600; }',
+    '    th { background-color: #e8f4fd; font-weight: 600; }',
     '    code { background: #f1f3f4; padding: 2px 6px; border-radius: 3px; font-family: "SF Mono", Monaco, "Cascadia Code", "Roboto Mono", Consolas, "Courier New", monospace; }',
     '    pre { background: #f8f9fa; border: 1px solid #e1e4e8; border-radius: 6px; padding: 16px; overflow-x: auto; }',
     '    pre code { background: none; padding: 0; }',
-    '    .example-section { background: #f8f9fa; border-left: 4px solid #3498db; padding: 15px; margin: 20px 0; border-radius: 0 6px 6px 0; }',
-    '    .props-table th { background-color: #e8f4fd; }',
     '    .back-link { display: inline-block; margin-bottom: 20px; color: #3498db; text-decoration: none; }',
     '    .back-link:hover { text-decoration: underline; }',
     '  </style>',
     '</head>',
     '<body>',
     '  <a href="./index.html" class="back-link">← 返回总览</a>',
-    `  <h1>${item.meta.title}</h1>`,
   ];
 
+  if (isMDXItem(item)) {
+    htmlParts.push(`  <h1>${escapeHtml(item.meta.title)}</h1>`);
+  }
+  if (content) {
+    htmlParts.push('  <div class="docs-content">', renderMarkdown(content), '  </div>');
+  }
+
+  htmlParts.push('</body>');
+  htmlParts.push('</html>');
+
+  return htmlParts.join('\n');
+}
+
+/**
+ * Options to shorten the full markdown content of a component, used to fit `tokenBudget`.
+ */
+export type FullFileContentOptions = {
+  /**
+   * Maximum number of examples, the remaining ones are listed by name only
+   */
+  maxExamples?: number;
+  /**
+   * Render the props tables of subcomponents, defaults to `true`
+   */
+  subcomponentProps?: boolean;
+  /**
+   * Maximum length of the component, subcomponent, prop and example descriptions
+   */
+  maxDescriptionLength?: number;
+  /**
+   * Order and headings of the sections, see `Args.docsTemplate`
+   */
+  template?: DocsTemplate | DocsTemplateFunction;
+  /**
+   * Package the component is imported from, rendered in the import section, see `getImportSource`
+   */
+  importSource?: string;
+};
+
+/**
+ * Built-in sections of the component docs files, in their default order.
+ */
+const DEFAULT_DOCS_SECTIONS: DocsSectionName[] = [
+  'title',
+  'description',
+  'import',
+  'props',
+  'subcomponents',
+  'examples',
+];
+
+const DEFAULT_DOCS_HEADINGS: Required<NonNullable<DocsTemplate['headings']>> = {
+  import: 'Import',
+  props: 'Props',
+  subcomponents: 'Subcomponents',
+  examples: 'Examples',
+};
+
+/**
+ * Maximum description length applied as the last `tokenBudget` trimming step.
+ */
+const TRIMMED_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Generates the full markdown content for a given storybook story.
+ * The sections of components follow `options.template`, MDX pages are rendered as is.
+ */
+export function generateFullFileContentFromStory(item: StorybookStoreItem, options: FullFileContentOptions = {}) {
+  const { maxExamples = Infinity, subcomponentProps: withSubcomponentProps = true, maxDescriptionLength } = options;
+  const stories = Object.values(item.stories);
+  const isMDXPage = stories.every(s => s.parameters?.docsOnly);
+
   if (isMDXPage) {
-    // For MDX pages, just render the full source content
-    const content = stories.map(s => s.parameters?.fullSource ?? '').filter(Boolean).join('\n\n');
-    if (content) {
-      // Convert markdown to HTML (simple conversion)
-      const htmlContent = convertMarkdownToHtml(content);
-      htmlParts.push(`  <div class="mdx-content">${htmlContent}</div>`);
-    }
-  } else {
-    // For component pages, render structured content
-    const description = extractStoryDescription(item);
-    if (description) {
-      htmlParts.push(`  <p>${description}</p>`);
-    }
-
-    const props = extractComponentProps(item.meta.component);
-    if (props.length > 0) {
-      htmlParts.push('  <h2>Props</h2>');
-      htmlParts.push('  <table class="props-table">');
-      htmlParts.push('    <thead>');
-      htmlParts.push('      <tr>');
-      htmlParts.push('        <th>Name</th>');
-      htmlParts.push('        <th>Type</th>');
-      htmlParts.push('        <th>Required</th>');
-      htmlParts.push('        <th>Default</th>');
-      htmlParts.push('        <th>Description</th>');
-      htmlParts.push('      </tr>');
-      htmlParts.push('    </thead>');
-      htmlParts.push('    <tbody>');
-      
-      for (const prop of props) {
-        htmlParts.push('      <tr>');
-        htmlParts.push(`        <td><code>${prop.name}</code></td>`);
-        htmlParts.push(`        <td><code>${stringifyPropType(prop.type)}</code></td>`);
-        htmlParts.push(`        <td>${prop.required ? 'Yes' : 'No'}</td>`);
-        htmlParts.push(`        <td>${prop.defaultValue ? `<code>${prop.defaultValue}</code>` : ''}</td>`);
-        htmlParts.push(`        <td>${prop.description?.replace(/\n/g, ' ') ?? ''}</td>`);
-        htmlParts.push('      </tr>');
+    return stories.map(s => s.parameters?.fullSource ?? '').filter(Boolean);
+  }
+
+  const template = resolveDocsTemplate(options.template, item);
+  const headings = { ...DEFAULT_DOCS_HEADINGS, ...template.headings };
+  const shorten = (text: string) => truncateText(text, maxDescriptionLength);
+  const shortenProps = (props: StorybookComponentProp[]) =>
+    props.map(prop => ({ ...prop, description: shorten(prop.description ?? '') }));
+
+  const sections: Record<DocsSectionName, () => string[]> = {
+    title: () => [`# ${item.meta.title}`, ''],
+    description: () => {
+      const description = extractStoryDescription(item);
+      return description ? [shorten(description), ''] : [];
+    },
+    import: () => {
+      const statement = options.importSource && generateImportStatement(item, options.importSource);
+      return statement ? [`## ${headings.import}`, '', '```tsx', statement, '```', ''] : [];
+    },
+    props: () => {
+      const props = extractComponentProps(item.meta.component, item.meta.argTypes);
+      if (props.length === 0) {
+        return [];
       }
-      
-      htmlParts.push('    </tbody>');
-      htmlParts.push('  </table>');
-    }
 
-    // Subcomponents
-    if (item.meta.subcomponents) {
-      htmlParts.push('  <h2>Subcomponents</h2>');
+      const content = [`## ${headings.props}`, ''];
+      for (const [category, categoryProps] of groupPropsByCategory(props)) {
+        if (category) {
+          content.push(`### ${category}`);
+        }
+        content.push(...generateComponentPropsTable(shortenProps(categoryProps)));
+      }
+      content.push('');
+      return content;
+    },
+    subcomponents: () => {
+      if (!item.meta.subcomponents) {
+        return [];
+      }
 
+      const content = [`## ${headings.subcomponents}`, ''];
       for (const [name, subcomponent] of Object.entries(item.meta.subcomponents)) {
         const docgen = subcomponent?.__docgenInfo;
         if (!docgen) {
           continue;
         }
 
-        htmlParts.push(`  <h3>${name}</h3>`);
-        if (docgen.description) {
-          htmlParts.push(`  <p>${docgen.description}</p>`);
-        }
+        content.push('');
+        content.push(`### ${name}`);
+        content.push('');
+        content.push(shorten(docgen.description ?? ''));
+        content.push('');
 
         const subcomponentProps = extractComponentProps(subcomponent);
-        if (subcomponentProps.length > 0) {
-          htmlParts.push('  <h4>Props</h4>');
-          htmlParts.push('  <table class="props-table">');
-          htmlParts.push('    <thead>');
-          htmlParts.push('      <tr>');
-          htmlParts.push('        <th>Name</th>');
-          htmlParts.push('        <th>Type</th>');
-          htmlParts.push('        <th>Required</th>');
-          htmlParts.push('        <th>Default</th>');
-          htmlParts.push('        <th>Description</th>');
-          htmlParts.push('      </tr>');
-          htmlParts.push('    </thead>');
-          htmlParts.push('    <tbody>');
-          
-          for (const prop of subcomponentProps) {
-            htmlParts.push('      <tr>');
-            htmlParts.push(`        <td><code>${prop.name}</code></td>`);
-            htmlParts.push(`        <td><code>${stringifyPropType(prop.type)}</code></td>`);
-            htmlParts.push(`        <td>${prop.required ? 'Yes' : 'No'}</td>`);
-            htmlParts.push(`        <td>${prop.defaultValue ? `<code>${prop.defaultValue}</code>` : ''}</td>`);
-            htmlParts.push(`        <td>${prop.description?.replace(/\n/g, ' ') ?? ''}</td>`);
-            htmlParts.push('      </tr>');
-          }
-          
-          htmlParts.push('    </tbody>');
-          htmlParts.push('  </table>');
+        if (withSubcomponentProps && subcomponentProps.length > 0) {
+          content.push(`#### ${headings.props}`);
+          content.push('');
+          content.push(...generateComponentPropsTable(shortenProps(subcomponentProps)));
+          content.push('');
         }
       }
-    }
-
-    // Examples
-    const examples = Object.values(item.stories).map(s => ({
-      title: s.name,
-      description: s.parameters?.docs?.description?.story,
-      source: s.parameters?.fullSource ?? s.parameters.docs?.source?.originalSource,
-    }));
+      return content;
+    },
+    examples: () => {
+      const examples = Object.values(item.stories).map(s => ({
+        title: s.name,
+        description: s.parameters?.docs?.description?.story,
+        args: extractStoryArgs(s, item.meta.argTypes),
+        source: s.parameters?.fullSource ?? s.parameters.docs?.source?.originalSource,
+      }));
+      if (examples.length === 0) {
+        return [];
+      }
 
-    if (examples.length > 0) {
-      htmlParts.push('  <h2>Examples</h2>');
-      for (const ex of examples) {
-        htmlParts.push('  <div class="example-section">');
-        htmlParts.push(`    <h3>${ex.title}</h3>`);
+      const content = [`## ${headings.examples}`, ''];
+      for (const ex of examples.slice(0, maxExamples)) {
+        content.push('');
+        content.push(`### ${ex.title}`);
+        content.push('');
         if (ex.description) {
-          htmlParts.push(`    <p>${ex.description}</p>`);
+          content.push(shorten(ex.description));
+          content.push('');
+        }
+        if (ex.args.length > 0) {
+          content.push('Args:');
+          content.push('');
+          content.push(...ex.args.map(([name, value]) => `- ${formatInlineCode(name)}: ${formatInlineCode(value)}`));
+          content.push('');
         }
         if (ex.source) {
-          htmlParts.push('    <pre><code class="language-tsx">');
-          htmlParts.push(ex.source.trim().replace(/</g, '&lt;').replace(/>/g, '&gt;'));
-          htmlParts.push('    </code></pre>');
+          content.push('```tsx');
+          content.push(ex.source.trim());
+          content.push('```');
         }
-        htmlParts.push('  </div>');
       }
-    }
-  }
 
-  htmlParts.push('</body>');
-  htmlParts.push('</html>');
+      const omittedExamples = examples.slice(maxExamples);
+      if (omittedExamples.length > 0) {
+        content.push('');
+        content.push(`> **Note:** ${omittedExamples.length} more examples were omitted to fit the token budget:`);
+        content.push('');
+        content.push(...omittedExamples.map(ex => `- ${ex.title}`));
+      }
+      return content;
+    },
+  };
 
-  return htmlParts.join('\n');
+  return (template.sections ?? DEFAULT_DOCS_SECTIONS).flatMap(section =>
+    typeof section === 'string' ? sections[section]() : generateCustomSection(section, item),
+  );
 }
 
 /**
- * Simple markdown to HTML converter for basic content
+ * Returns the template of a store item: the result of a template function, with the matching `overrides` merged in.
  */
-function convertMarkdownToHtml(markdown: string): string {
-  return markdown
-    .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-    .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-    .replace(/^# (.*$)/gim, '<h1>$1</h1>')
-    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-    .replace(/\*(.*?)\*/g, '<em>$1</em>')
-    .replace(/`(.*?)`/g, '<code>$1</code>')
-    .replace(/\n\n/g, '</p><p>')
-    .replace(/^(.*)$/gm, '<p>$1</p>')
-    .replace(/<p><h/g, '<h')
-    .replace(/<\/h([1-6])><\/p>/g, '</h$1>')
-    .replace(/<p><\/p>/g, '');
+function resolveDocsTemplate(template: DocsTemplate | DocsTemplateFunction = {}, item: StorybookStoreItem) {
+  const baseTemplate = (typeof template === 'function' ? template(item) : template) ?? {};
+
+  return Object.entries(baseTemplate.overrides ?? {})
+    .filter(([pattern]) => {
+      const regExp = globToRegExp(pattern);
+      return regExp.test(item.meta.title) || regExp.test(item.meta.id);
+    })
+    .reduce<DocsTemplate>(
+      (resolved, [, override]) => ({
+        ...resolved,
+        ...(override.sections ? { sections: override.sections } : {}),
+        headings: { ...resolved.headings, ...override.headings },
+      }),
+      baseTemplate,
+    );
 }
 
 /**
- * Generates the full markdown content for a given storybook story.
+ * Renders a custom section of a docs template, or nothing without content.
  */
-export function generateFullFileContentFromStory(item: StorybookStoreItem) {
-  const stories = Object.values(item.stories);
-  const isMDXPage = stories.every(s => s.parameters?.docsOnly);
-
-  if (isMDXPage) {
-    return stories.map(s => s.parameters?.fullSource ?? '').filter(Boolean);
+function generateCustomSection({ heading, content }: DocsCustomSection, item: StorybookStoreItem) {
+  const text = (typeof content === 'function' ? content(item) : content)?.trim();
+  if (!text) {
+    return [];
   }
 
-  const content: string[] = [];
-  content.push(`# ${item.meta.title}`);
-  content.push('');
-  const description = extractStoryDescription(item);
-  if (description) {
-    content.push(description);
-    content.push('');
-  }
-  const props = extractComponentProps(item.meta.component);
-  if (props.length > 0) {
-    content.push('## Props');
-    content.push('');
-    content.push(...generateComponentPropsTable(props));
-    content.push('');
-  }
+  const values: Record<string, string> = {
+    title: item.meta.title,
+    id: item.meta.id,
+    name: item.meta.title.split('/').pop() ?? '',
+  };
+  return [`## ${heading}`, '', text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match), ''];
+}
 
-  if (item.meta.subcomponents) {
-    content.push('## Subcomponents');
-    content.push('');
+/**
+ * Options affecting the content of the component docs files, see `generateBudgetedFileContent`.
+ */
+export type DocsContentArgs = Pick<
+  Args,
+  'tokenizer' | 'tokenBudget' | 'tokenBudgetMaxExamples' | 'docsTemplate' | 'importPackages' | 'importPackageJson'
+>;
 
-    for (const [name, subcomponent] of Object.entries(item.meta.subcomponents)) {
-      const docgen = subcomponent?.__docgenInfo;
-      if (!docgen) {
-        continue;
-      }
+/**
+ * Result of `generateBudgetedFileContent`.
+ */
+export type BudgetedFileContent = {
+  content: string[];
+  tokens: number;
+  /**
+   * Whether `tokens` exceeds `tokenBudget`, even after trimming
+   */
+  exceedsBudget: boolean;
+};
 
-      content.push('');
-      content.push(`### ${name}`);
-      content.push('');
-      content.push(docgen.description ?? '');
-      content.push('');
+/**
+ * Generates the full markdown content of a store item, trimmed to fit `tokenBudget`.
+ * Trimming steps are applied one after another until the content fits: examples beyond `tokenBudgetMaxExamples` are
+ * dropped, then subcomponent props, then descriptions are shortened. MDX pages are never trimmed.
+ */
+export function generateBudgetedFileContent(
+  {
+    tokenizer = defaultConfig.tokenizer,
+    tokenBudget = defaultConfig.tokenBudget,
+    tokenBudgetMaxExamples = defaultConfig.tokenBudgetMaxExamples,
+    docsTemplate = defaultConfig.docsTemplate,
+    ...args
+  }: DocsContentArgs,
+  item: StorybookStoreItem,
+): BudgetedFileContent {
+  const importSource = getImportSource(args, item);
+  const steps: FullFileContentOptions[] = [
+    {},
+    { maxExamples: tokenBudgetMaxExamples },
+    { maxExamples: tokenBudgetMaxExamples, subcomponentProps: false },
+    { maxExamples: tokenBudgetMaxExamples, subcomponentProps: false, maxDescriptionLength: TRIMMED_DESCRIPTION_LENGTH },
+  ];
 
-      const subcomponentProps = extractComponentProps(subcomponent);
-      if (subcomponentProps.length > 0) {
-        content.push('#### Props');
-        content.push('');
-        content.push(...generateComponentPropsTable(subcomponentProps));
-        content.push('');
-      }
+  let result: BudgetedFileContent = { content: [], tokens: 0, exceedsBudget: false };
+  for (const options of tokenBudget > 0 ? steps : steps.slice(0, 1)) {
+    const content = generateFullFileContentFromStory(item, {
+      ...options,
+      template: docsTemplate,
+      ...(importSource ? { importSource } : {}),
+    });
+    const tokens = tokenizer(content.join('\n'));
+    result = { content, tokens, exceedsBudget: tokenBudget > 0 && tokens > tokenBudget };
+    if (!result.exceedsBudget) {
+      break;
     }
   }
 
-  const examples = Object.values(item.stories).map(s => ({
-    title: s.name,
-    description: s.parameters?.docs?.description?.story,
-    source: s.parameters?.fullSource ?? s.parameters.docs?.source?.originalSource,
-  }));
-  if (examples.length > 0) {
-    content.push('## Examples');
-    content.push('');
-    for (const ex of examples) {
-      content.push('');
-      content.push(`### ${ex.title}`);
-      content.push('');
-      if (ex.description) {
-        content.push(ex.description);
-        content.push('');
-      }
-      if (ex.source) {
-        content.push('```tsx');
-        content.push(ex.source.trim());
-        content.push('```');
-      }
-    }
-  }
-  return content;
+  return result;
 }
 
 /**
- * Converts a docgen type object to a readable string for markdown tables.
+ * Shortens a text to `maxLength` characters at a word boundary, with a trailing ellipsis.
  */
-function stringifyPropType(type: StorybookComponentProp['type']): string {
-  if (!type) {
-    return '';
-  }
-  if (typeof type === 'string') {
-    return type;
-  }
-  if (typeof type === 'object' && type !== null && 'name' in type && typeof type.name === 'string') {
-    // Handle enums, unions, arrays, etc.
-    if (type.name === 'enum' && Array.isArray(type.value)) {
-      return type.value.map(v => (typeof v.value === 'string' ? v.value : JSON.stringify(v.value))).join(' ');
-    }
-    if (type.name === 'union' && Array.isArray(type.value)) {
-      return type.value.map(v => (typeof v.value === 'string' ? v.value : JSON.stringify(v.value))).join(' ');
-    }
-    if (type.name === 'array' && type.value) {
-      return `${stringifyPropType(type.value as StorybookComponentProp['type'])}[]`;
-    }
-    if (type.name === 'signature' && type.value?.[0]?.value === 'function') {
-      // Function signature
-      return 'function';
-    }
-    return type.name;
+function truncateText(text: string, maxLength = Infinity) {
+  if (text.length <= maxLength) {
+    return text;
   }
-  return JSON.stringify(type);
+
+  const truncated = text.slice(0, maxLength);
+  const wordBoundary = truncated.search(/\s\S*$/);
+  return `${(wordBoundary > 0 ? truncated.slice(0, wordBoundary) : truncated).trimEnd()}…`;
 }
 
 /**
@@ -883,29 +1413,98 @@ function extractStoryDescription(story: StorybookStoreItem) {
 }
 
 /**
- * Extracts the props from a storybook story.
+ * Extracts the props from a storybook story. `argTypes` enrich or override the docgen props and add the props of
+ * components without docgen, argTypes hidden with `table.disable` are left out.
  */
-function extractComponentProps(component?: StorybookComponent) {
-  const docgen = component?.__docgenInfo;
-  if (!docgen || !docgen.props) {
-    return [];
-  }
-  const props: StorybookComponentProp[] = [];
-  for (const [name, arg] of Object.entries(docgen.props)) {
-    if (name === 'children') {
-      continue;
-    }
-    props.push({
+export function extractComponentProps(component?: StorybookComponent, argTypes: StorybookArgTypes = {}) {
+  const props = new Map<string, StorybookComponentProp>();
+  for (const [name, arg] of Object.entries(component?.__docgenInfo?.props ?? {})) {
+    props.set(name, {
       name,
       description: arg.description || '',
-      type: arg.type ?? {},
+      type: arg.tsType ?? arg.flowType ?? arg.type ?? {},
       defaultValue: typeof arg.defaultValue === 'string' ? arg.defaultValue : arg.defaultValue?.value || '',
       required: arg.required ?? false,
     });
   }
-  return props;
+
+  for (const [name, argType] of Object.entries(argTypes)) {
+    if (argType.table?.disable) {
+      props.delete(name);
+      continue;
+    }
+    props.set(name, mergeArgType(props.get(name) ?? { name, description: '', type: {}, defaultValue: '' }, argType));
+  }
+
+  return [...props.values()].filter(prop => prop.name !== 'children');
+}
+
+/**
+ * Applies the documentation of an argType to a prop. Its `options` and descriptions take precedence over the docgen
+ * info, its `table.type` summary only documents props without docgen type.
+ */
+function mergeArgType(prop: StorybookComponentProp, argType: StorybookArgType): StorybookComponentProp {
+  const argTypeType = typeof argType.type === 'string' ? { name: argType.type } : argType.type;
+  const optionsType = argType.options?.length
+    ? { name: 'enum', value: argType.options.map(option => ({ value: formatArgValue(option) })) }
+    : undefined;
+  const tableType = argType.table?.type?.summary ? { name: argType.table.type.summary } : undefined;
+  const hasType = !!stringifyPropType(prop.type);
+
+  return {
+    ...prop,
+    description: argType.description || prop.description || '',
+    // Storybook infers `table.type` from the docgen info in a lossy form
+    type: optionsType ?? (hasType ? prop.type : tableType ?? argTypeType) ?? {},
+    defaultValue: argType.table?.defaultValue?.summary ?? prop.defaultValue ?? '',
+    required: argTypeType?.required ?? prop.required ?? false,
+    ...(argType.table?.category && { category: argType.table.category }),
+  };
+}
+
+/**
+ * Groups props by the category of their argType, props without category come first.
+ */
+function groupPropsByCategory(props: StorybookComponentProp[]) {
+  const groups = new Map<string | undefined, StorybookComponentProp[]>([[undefined, []]]);
+  for (const prop of props) {
+    groups.set(prop.category, [...(groups.get(prop.category) ?? []), prop]);
+  }
+
+  return [...groups].filter(([, categoryProps]) => categoryProps.length > 0);
+}
+
+/**
+ * Extracts the args set by a story as name and formatted value, leaving out the args of hidden argTypes.
+ */
+function extractStoryArgs(story: StorybookStoreItemStory, argTypes: StorybookArgTypes = {}) {
+  return Object.entries(story.args ?? {})
+    .filter(([name, value]) => value !== undefined && !argTypes[name]?.table?.disable)
+    .map(([name, value]): [string, string] => [name, formatArgValue(value)]);
+}
+
+/**
+ * Formats an arg value as TypeScript-like literal, e.g. `"primary"`, `42` or `{ "open": true }`.
+ */
+function formatArgValue(value: unknown) {
+  if (typeof value === 'string' && /^<[\w.]+ \/>$/.test(value)) {
+    return value;
+  }
+
+  return JSON.stringify(value) ?? String(value);
 }
 
+/**
+ * Longest prop type that is still written into a props table cell.
+ */
+const MAX_TABLE_TYPE_LENGTH = 80;
+
+/**
+ * Matches Markdown blocks (paragraphs, lists, code fences, headings, quotes and tables) that do not fit into a table
+ * cell.
+ */
+const MARKDOWN_BLOCK_PATTERN = /\n[ \t]*\n|(?:^|\n)[ \t]*(?:[-*+][ \t]|\d+[.)][ \t]|```|~~~|#{1,6}[ \t]|>|\|)/;
+
 function generateComponentPropsTable(props: StorybookComponentProp[]): string[] {
   const content: string[] = [];
 
@@ -913,18 +1512,24 @@ function generateComponentPropsTable(props: StorybookComponentProp[]): string[]
     return content;
   }
 
+  if (props.some(prop => !fitsPropsTable(prop))) {
+    return generateComponentPropsList(props);
+  }
+
   content.push('');
   content.push('| Name | Type | Required | Default | Description |');
   content.push('|------|------|----------|---------|-------------|');
   for (const prop of props) {
     content.push(
       `| ${[
-        `\`${prop.name}\``,
-        `\`${stringifyPropType(prop.type)}\``,
+        formatInlineCode(prop.name),
+        formatInlineCode(stringifyPropType(prop.type)),
         prop.required ? 'Yes' : 'No',
-        prop.defaultValue ?? '',
-        prop.description?.replace(/\n/g, ' ') ?? '',
-      ].join(' | ')} |`,
+        String(prop.defaultValue ?? ''),
+        prop.description ?? '',
+      ]
+        .map(escapeTableCell)
+        .join(' | ')} |`,
     );
   }
   content.push('');
@@ -933,23 +1538,75 @@ function generateComponentPropsTable(props: StorybookComponentProp[]): string[]
 }
 
 /**
- * Writes the sitemap.xml file for all store items.
- * This provides better SEO and indexing support for search engines and crawlers.
+ * Writes the props as a definition list, used when a type or description does not fit into a table cell.
  */
-export async function writeSitemapFile(args: Required<Args>, data: StorybookStoreItem[]) {
-  const llmsDir = join(args.distPath, 'llms');
-  const sitemapContent = generateSitemapContent(args, data);
-  await writeFile(join(llmsDir, 'sitemap.xml'), sitemapContent);
-  console.log(`✅ Sitemap written to ${join(llmsDir, 'sitemap.xml')}`);
+function generateComponentPropsList(props: StorybookComponentProp[]): string[] {
+  const content: string[] = [''];
+
+  for (const prop of props) {
+    const type = stringifyPropType(prop.type);
+    content.push(`- ${formatInlineCode(prop.name)}${prop.required ? ' (required)' : ''}`);
+    content.push('');
+    if (isLongPropType(type)) {
+      content.push('  Type:');
+      content.push('');
+      content.push(...formatCodeBlock(type, 'ts').map(line => `  ${line}`));
+    } else {
+      content.push(`  Type: ${formatInlineCode(type)}`);
+    }
+    if (prop.defaultValue) {
+      content.push('');
+      content.push(`  Default: ${formatInlineCode(String(prop.defaultValue))}`);
+    }
+    if (prop.description) {
+      content.push('');
+      const lines = prop.description.trim().split('\n');
+      content.push(...lines.map(line => (line.trim() ? `  ${line}` : '')));
+    }
+    content.push('');
+  }
+
+  return content;
+}
+
+function fitsPropsTable(prop: StorybookComponentProp) {
+  return !isLongPropType(stringifyPropType(prop.type)) && !MARKDOWN_BLOCK_PATTERN.test(prop.description?.trim() ?? '');
+}
+
+function isLongPropType(type: string) {
+  return type.length > MAX_TABLE_TYPE_LENGTH || type.includes('\n');
+}
+
+/**
+ * Escapes pipes, which would split the cell even inside code spans, and joins soft line breaks.
+ */
+function escapeTableCell(text: string) {
+  const cell = text.trim().replace(/[ \t]*\r?\n[ \t]*/g, ' ');
+  return cell.replace(/\|/g, '\\|');
+}
+
+/**
+ * Wraps the text in a code span whose fence is longer than any backtick run inside it.
+ */
+function formatInlineCode(text: string) {
+  const fence = '`'.repeat(Math.max(0, ...(text.match(/`+/g) ?? []).map(run => run.length)) + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text}${padding}${fence}`;
+}
+
+/**
+ * Wraps the text in a fenced code block whose fence is longer than any backtick run inside it.
+ */
+function formatCodeBlock(text: string, language = '') {
+  const fence = '`'.repeat(Math.max(2, ...(text.match(/`+/g) ?? []).map(run => run.length)) + 1);
+  return [`${fence}${language}`, ...text.split('\n'), fence];
 }
 
 /**
  * Generates the sitemap.xml content from the storeItems array.
  */
-export function generateSitemapContent(
-  { summaryBaseUrl }: Required<Args>,
-  data: StorybookStoreItem[],
-): string {
+export function generateSitemapContent(args: Required<Args>, data: StorybookStoreItem[]): string {
+  const { fullSummary, docsFormats = defaultConfig.docsFormats } = args;
   const currentDate = new Date().toISOString().split('T')[0]; // YYYY-MM-DD format
   
   const sitemapParts: string[] = [
@@ -958,37 +1615,53 @@ export function generateSitemapContent(
     '',
     '  <!-- Main summary page -->',
     '  <url>',
-    `    <loc>${summaryBaseUrl}/llms.txt</loc>`,
+    `    <loc>${escapeXml(getOutputFileUrl(args, 'llms.txt'))}</loc>`,
     `    <lastmod>${currentDate}</lastmod>`,
     '    <changefreq>weekly</changefreq>',
     '    <priority>1.0</priority>',
     '  </url>',
     '',
+  ];
+
+  if (fullSummary) {
+    sitemapParts.push('  <!-- Full documentation -->');
+    sitemapParts.push('  <url>');
+    sitemapParts.push(`    <loc>${escapeXml(getOutputFileUrl(args, 'llms-full.txt'))}</loc>`);
+    sitemapParts.push(`    <lastmod>${currentDate}</lastmod>`);
+    sitemapParts.push('    <changefreq>weekly</changefreq>');
+    sitemapParts.push('    <priority>0.9</priority>');
+    sitemapParts.push('  </url>');
+    sitemapParts.push('');
+  }
+
+  sitemapParts.push(
     '  <!-- HTML summary index -->',
     '  <url>',
-    `    <loc>${summaryBaseUrl}/llms/index.html</loc>`,
+    `    <loc>${escapeXml(getDocsFileUrl(args, 'index.html'))}</loc>`,
     `    <lastmod>${currentDate}</lastmod>`,
     '    <changefreq>weekly</changefreq>',
     '    <priority>0.9</priority>',
     '  </url>',
     '',
-  ];
+  );
 
   // Add individual component/page URLs
   for (const item of data) {
     sitemapParts.push('  <!-- Component/Page documentation -->');
     
-    // Add .txt file
-    sitemapParts.push('  <url>');
-    sitemapParts.push(`    <loc>${summaryBaseUrl}/llms/${item.meta.id}.txt</loc>`);
-    sitemapParts.push(`    <lastmod>${currentDate}</lastmod>`);
-    sitemapParts.push('    <changefreq>weekly</changefreq>');
-    sitemapParts.push('    <priority>0.8</priority>');
-    sitemapParts.push('  </url>');
+    // Add the text files
+    for (const format of docsFormats) {
+      sitemapParts.push('  <url>');
+      sitemapParts.push(`    <loc>${escapeXml(getItemDocsUrl(args, item.meta.id, format))}</loc>`);
+      sitemapParts.push(`    <lastmod>${currentDate}</lastmod>`);
+      sitemapParts.push('    <changefreq>weekly</changefreq>');
+      sitemapParts.push('    <priority>0.8</priority>');
+      sitemapParts.push('  </url>');
+    }
     
     // Add .html file
     sitemapParts.push('  <url>');
-    sitemapParts.push(`    <loc>${summaryBaseUrl}/llms/${item.meta.id}.html</loc>`);
+    sitemapParts.push(`    <loc>${escapeXml(getItemDocsUrl(args, item.meta.id, 'html'))}</loc>`);
     sitemapParts.push(`    <lastmod>${currentDate}</lastmod>`);
     sitemapParts.push('    <changefreq>weekly</changefreq>');
     sitemapParts.push('    <priority>0.7</priority>');
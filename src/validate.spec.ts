@@ -0,0 +1,55 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { argsWithRefs } from './__fixtures__/args';
+import { storybookStoreItems } from './__fixtures__/storybook-store-items';
+
+import { renderLlmsDocs } from './generate';
+import { validateLlmsDocs } from './validate';
+
+describe('validate', () => {
+  let distPath: string;
+
+  beforeEach(async () => {
+    distPath = await mkdtemp(join(tmpdir(), 'validate-spec-'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await rm(distPath, { recursive: true, force: true });
+  });
+
+  describe('validateLlmsDocs', () => {
+    it('should not report problems for up to date docs', async () => {
+      await renderLlmsDocs({ ...argsWithRefs, distPath }, storybookStoreItems);
+
+      const { problems } = await validateLlmsDocs({ ...argsWithRefs, distPath }, storybookStoreItems);
+
+      expect(problems).toEqual([]);
+    });
+
+    it('should report missing, outdated and stale files', async () => {
+      await renderLlmsDocs({ ...argsWithRefs, distPath }, storybookStoreItems);
+      await writeFile(join(distPath, 'llms', 'components-removed.txt'), '# Components/Removed');
+      await writeFile(join(distPath, 'llms.txt'), `${await readFile(join(distPath, 'llms.txt'), 'utf-8')}\n- edited`);
+      await rm(join(distPath, 'llms', 'concepts-introduction.html'));
+
+      const { problems } = await validateLlmsDocs({ ...argsWithRefs, distPath }, storybookStoreItems);
+
+      expect(problems).toEqual([
+        { file: 'llms.txt', reason: 'outdated' },
+        { file: 'llms/concepts-introduction.html', reason: 'missing' },
+        { file: 'llms/components-removed.txt', reason: 'stale' },
+      ]);
+    });
+
+    it('should report all files of a missing output folder', async () => {
+      const { problems } = await validateLlmsDocs({ ...argsWithRefs, distPath }, storybookStoreItems);
+
+      expect(problems.length).toBeGreaterThan(0);
+      expect(problems.every(({ reason }) => reason === 'missing')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { renderLlmsDocs } from './generate';
+import type {
+  Args,
+  Diagnostic,
+  OutputFileChange,
+  OutputFileProblem,
+  StorybookStoreItem,
+  ValidateResult,
+} from './types';
+
+const PROBLEM_REASONS: Record<OutputFileChange['status'], OutputFileProblem['reason']> = {
+  added: 'missing',
+  modified: 'outdated',
+  removed: 'stale',
+};
+
+/**
+ * Checks that the docs in `outDir` are up to date with the store items: every file is computed in memory and
+ * compared with the existing one. Files in the docs folder that would not be generated anymore are reported as
+ * stale. Sitemap `lastmod` dates, the generation cache and the docs folder marker are ignored.
+ */
+export async function validateLlmsDocs(
+  config: Args,
+  data: StorybookStoreItem[],
+  warnings: Diagnostic[] = [],
+): Promise<ValidateResult> {
+  const { changes } = await renderLlmsDocs({ ...config, strict: false, dryRun: true, diff: true }, data, warnings);
+  const problems = (changes?.files ?? []).map(({ file, status }) => ({ file, reason: PROBLEM_REASONS[status] }));
+
+  return { problems, warnings };
+}
+
+/**
+ * Formats output file problems as a bullet list, one `[reason] file` per line.
+ */
+export function formatOutputFileProblems(problems: OutputFileProblem[]) {
+  return problems.map(({ file, reason }) => `  - [${reason}] ${file}`).join('\n');
+}